@@ -0,0 +1,81 @@
+import { createHash } from 'node:crypto';
+import type { Item } from '../src/types/item';
+import type { DataChangelog, DataChangelogEntry } from '../src/types/changelog';
+
+// Older entries are dropped, nobody stays away for that many data updates
+const MAX_ENTRIES = 20;
+
+/**
+ * Identifies a version of the item data by its content, so regenerating unchanged data keeps the version
+ */
+export function getDataVersion(items: Item[]): string {
+  return createHash('sha256').update(JSON.stringify(items)).digest('hex').slice(0, 12);
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+type ItemChanges = Pick<DataChangelogEntry, 'added' | 'removed' | 'recipeChanges' | 'valueChanges'>;
+
+export function diffItems(previousItems: Item[], items: Item[]): ItemChanges {
+  const previousById = new Map(previousItems.map((item) => [item.id, item]));
+  const currentIds = new Set(items.map((item) => item.id));
+  const changes: ItemChanges = {
+    added: [],
+    removed: previousItems
+      .filter((item) => !currentIds.has(item.id))
+      .map((item) => ({ id: item.id, name: item.name.en })),
+    recipeChanges: [],
+    valueChanges: [],
+  };
+
+  for (const item of items) {
+    const previous = previousById.get(item.id);
+    if (!previous) {
+      changes.added.push(item.id);
+      continue;
+    }
+    for (const property of ['recipe', 'upgradeCost'] as const) {
+      if (!isSame(previous[property], item[property])) {
+        changes.recipeChanges.push({
+          itemId: item.id,
+          property,
+          before: previous[property] ?? null,
+          after: item[property] ?? null,
+        });
+      }
+    }
+    if (previous.value !== item.value) {
+      changes.valueChanges.push({ itemId: item.id, before: previous.value ?? null, after: item.value ?? null });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Adds what changed since the previous items.json to the changelog.
+ * Without previous items there is nothing to compare, only the version is recorded.
+ */
+export function updateChangelog(
+  changelog: DataChangelog | null,
+  previousItems: Item[] | null,
+  items: Item[],
+  generatedAt: string
+): DataChangelog {
+  const version = getDataVersion(items);
+  const entries = changelog?.entries || [];
+  if (!previousItems) {
+    return { version, entries };
+  }
+
+  const previousVersion = getDataVersion(previousItems);
+  if (previousVersion === version) {
+    return { version, entries };
+  }
+
+  // Added even without item changes (e.g. only descriptions changed), so the versions stay a chain
+  const entry: DataChangelogEntry = { version, previousVersion, generatedAt, ...diffItems(previousItems, items) };
+  return { version, entries: [...entries, entry].slice(-MAX_ENTRIES) };
+}
@@ -0,0 +1,174 @@
+/**
+ * Generates the item, workstation and quest data the app loads from a checkout
+ * of the arcraiders-data repository, and checks it on the way.
+ *
+ *   npm run generate-data [-- --strict] [-- --report report.json]
+ *
+ * DATA_DIR and DEST_DIR override the source (../arcraiders-data) and output (./public) directories.
+ * Errors stop the script before anything is written; --strict treats warnings as errors.
+ * Changes against the previous items.json are added to changelog.json.
+ */
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { Item } from '../src/types/item';
+import type { HideoutModule } from '../src/types/hideout';
+import type { Quest } from '../src/types/quest';
+import type { DataChangelog } from '../src/types/changelog';
+import { projectHideoutModule, projectItem, projectQuest, validateItemData } from './itemData';
+import type { Issue } from './itemData';
+import { updateChangelog } from './changelog';
+
+const DATA_DIR = process.env.DATA_DIR || '../arcraiders-data';
+const DEST_DIR = process.env.DEST_DIR || './public';
+
+const { values: options } = parseArgs({
+  options: {
+    strict: { type: 'boolean', default: false },
+    report: { type: 'string' },
+  },
+});
+
+/**
+ * Reads every JSON file of a directory, sorted by file name.
+ * Files that can't be read or have no id are reported as errors.
+ */
+function readDirectory(directory: string, issues: Issue[]): Record<string, unknown>[] {
+  const records: Record<string, unknown>[] = [];
+  for (const fileName of readdirSync(directory).filter((name) => name.endsWith('.json')).sort()) {
+    const source = join(directory, fileName);
+    try {
+      const record = JSON.parse(readFileSync(source, 'utf-8'));
+      if (typeof record?.id !== 'string' || record.id === '') {
+        issues.push({ severity: 'error', check: 'invalid-file', source, message: 'No id' });
+        continue;
+      }
+      records.push(record);
+    } catch (error) {
+      issues.push({ severity: 'error', check: 'invalid-file', source, message: (error as Error).message });
+    }
+  }
+  return records;
+}
+
+// Optional directories: older data exports don't have them
+function readOptionalDirectory(
+  directory: string,
+  description: string,
+  issues: Issue[]
+): Record<string, unknown>[] | null {
+  if (!existsSync(directory)) {
+    console.warn(`Warning: ${directory} does not exist, skipping ${description}`);
+    return null;
+  }
+  return readDirectory(directory, issues);
+}
+
+// Previous output, to compare against; a missing or unreadable file counts as none
+function readPreviousFile<T>(fileName: string): T | null {
+  const path = join(DEST_DIR, fileName);
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    console.warn(`Warning: ${path} can't be read, ignoring it: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+function printIssues(issues: Issue[]): void {
+  for (const issue of issues) {
+    const prefix = issue.severity === 'error' ? 'Error' : 'Warning';
+    console.log(`  ${prefix} [${issue.check}] ${issue.source}: ${issue.message}`);
+  }
+}
+
+function main(): number {
+  const itemsDir = join(DATA_DIR, 'items');
+  if (!existsSync(itemsDir)) {
+    console.error(`Error: Source directory ${itemsDir} does not exist`);
+    return 1;
+  }
+
+  console.log('Generating consolidated item data...');
+  const issues: Issue[] = [];
+  const items: Item[] = readDirectory(itemsDir, issues).map(projectItem);
+  const modules: HideoutModule[] | undefined = readOptionalDirectory(
+    join(DATA_DIR, 'hideout'),
+    'workstation upgrades',
+    issues
+  )?.map(projectHideoutModule);
+  const quests: Quest[] | undefined = readOptionalDirectory(join(DATA_DIR, 'quests'), 'quests', issues)?.map(
+    projectQuest
+  );
+  if (items.length === 0) {
+    issues.push({ severity: 'error', check: 'no-items', source: itemsDir, message: 'No items were found' });
+  }
+  issues.push(...validateItemData(items, modules || [], quests || []));
+
+  const errors = issues.filter((issue) => issue.severity === 'error' || options.strict);
+  const warnings = issues.filter((issue) => !errors.includes(issue));
+
+  const counts = { items: items.length, workstations: modules?.length || 0, quests: quests?.length || 0 };
+  console.log(`Items: ${counts.items}, workstations: ${counts.workstations}, quests: ${counts.quests}`);
+  if (warnings.length > 0) {
+    console.log(`${warnings.length} warning(s):`);
+    printIssues(warnings);
+  }
+  if (errors.length > 0) {
+    console.log(`${errors.length} error(s):`);
+    printIssues(errors);
+  }
+
+  if (options.report) {
+    const report = {
+      generatedAt: new Date().toISOString(),
+      dataDir: DATA_DIR,
+      counts,
+      errors,
+      warnings,
+    };
+    writeFileSync(options.report, JSON.stringify(report, null, 2) + '\n');
+    console.log(`Report written to ${options.report}`);
+  }
+
+  if (errors.length > 0) {
+    console.error('Error: The data has errors, nothing was written');
+    return 1;
+  }
+
+  // Older items.json files still contain null values, projecting them again makes the versions comparable
+  const previousItems = readPreviousFile<Record<string, unknown>[]>('items.json')?.map(projectItem) || null;
+  const generatedAt = new Date().toISOString();
+  const changelog = updateChangelog(readPreviousFile<DataChangelog>('changelog.json'), previousItems, items, generatedAt);
+  const latestEntry = changelog.entries[changelog.entries.length - 1];
+  if (latestEntry?.generatedAt === generatedAt) {
+    console.log(`Data version ${latestEntry.previousVersion} → ${changelog.version}:`);
+    console.log(
+      `  ${latestEntry.added.length} added, ${latestEntry.removed.length} removed, ` +
+        `${latestEntry.recipeChanges.length} recipe and ${latestEntry.valueChanges.length} value change(s)`
+    );
+  } else {
+    console.log(`Data version ${changelog.version}`);
+  }
+
+  // Minified, the app only ever parses these files
+  mkdirSync(DEST_DIR, { recursive: true });
+  writeFileSync(join(DEST_DIR, 'items.json'), JSON.stringify(items));
+  console.log(`Done! Generated ${join(DEST_DIR, 'items.json')}`);
+  if (modules) {
+    writeFileSync(join(DEST_DIR, 'hideout.json'), JSON.stringify(modules));
+    console.log(`Done! Generated ${join(DEST_DIR, 'hideout.json')}`);
+  }
+  if (quests) {
+    writeFileSync(join(DEST_DIR, 'quests.json'), JSON.stringify(quests));
+    console.log(`Done! Generated ${join(DEST_DIR, 'quests.json')}`);
+  }
+  writeFileSync(join(DEST_DIR, 'changelog.json'), JSON.stringify(changelog));
+  console.log(`Done! Generated ${join(DEST_DIR, 'changelog.json')}`);
+  return 0;
+}
+
+process.exitCode = main();
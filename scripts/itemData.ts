@@ -0,0 +1,236 @@
+import type { Item, ItemName, ItemRarity } from '../src/types/item';
+import type { HideoutModule } from '../src/types/hideout';
+import type { Quest } from '../src/types/quest';
+import { WEAPON_TIER_SUFFIX } from '../src/utils/weaponTiers';
+
+type RawRecord = Record<string, unknown>;
+
+export interface Issue {
+  severity: 'error' | 'warning';
+  check: string; // e.g. "dangling-id"
+  source: string; // Item, workstation or quest id (or file name if the id is missing)
+  message: string;
+}
+
+const RARITIES: ItemRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
+
+// The properties the app uses; everything else in the source files is dropped
+const ITEM_PROPERTIES = [
+  'id',
+  'name',
+  'description',
+  'type',
+  'rarity',
+  'value',
+  'weightKg',
+  'stackSize',
+  'recyclesInto',
+  'recipe',
+  'salvagesInto',
+  'upgradeCost',
+  'tier',
+  'craftBench',
+  'stationLevelRequired',
+  'blueprintLocked',
+  'imageFilename',
+  'isWeapon',
+] as const;
+
+// Item references that have to resolve for crafting to work; the others only lose a link
+const CRAFTING_REFERENCES = ['recipe', 'upgradeCost'] as const;
+const OTHER_REFERENCES = ['recyclesInto', 'salvagesInto'] as const;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Every translation of a text; validateItemData reports a missing English one
+function getTexts(value: unknown): ItemName {
+  const texts: Record<string, string> = {};
+  for (const [language, text] of Object.entries(isRecord(value) ? value : {})) {
+    if (typeof text === 'string' && text !== '') {
+      texts[language] = text;
+    }
+  }
+  return texts as ItemName;
+}
+
+/**
+ * Keeps the properties the app uses, with the texts in every language.
+ * Null values are left out, so the result matches the optional fields of Item.
+ */
+export function projectItem(raw: RawRecord): Item {
+  const item: RawRecord = {};
+  for (const property of ITEM_PROPERTIES) {
+    const value = raw[property];
+    if (value === null || value === undefined) {
+      continue;
+    }
+    item[property] = property === 'name' || property === 'description' ? getTexts(value) : value;
+  }
+  return item as unknown as Item;
+}
+
+// { itemId, quantity } lists become quantity maps like recipes
+function toRequirements(value: unknown): Record<string, number> {
+  const requirements: Record<string, number> = {};
+  for (const entry of Array.isArray(value) ? value : []) {
+    if (isRecord(entry) && typeof entry.itemId === 'string') {
+      requirements[entry.itemId] = entry.quantity as number;
+    }
+  }
+  return requirements;
+}
+
+export function projectHideoutModule(raw: RawRecord): HideoutModule {
+  return {
+    id: raw.id as string,
+    name: getTexts(raw.name),
+    maxLevel: raw.maxLevel as number,
+    levels: (Array.isArray(raw.levels) ? raw.levels : []).filter(isRecord).map((level) => ({
+      level: level.level as number,
+      requirements: toRequirements(level.requirementItemIds),
+    })),
+  };
+}
+
+export function projectQuest(raw: RawRecord): Quest {
+  const quest: Quest = {
+    id: raw.id as string,
+    name: getTexts(raw.name),
+    requirements: toRequirements(raw.requiredItemIds),
+  };
+  if (typeof raw.trader === 'string') {
+    quest.trader = raw.trader;
+  }
+  return quest;
+}
+
+function checkQuantities(
+  issues: Issue[],
+  source: string,
+  property: string,
+  quantities: unknown,
+  itemIds: Set<string>,
+  severity: Issue['severity']
+): void {
+  if (quantities === undefined) {
+    return;
+  }
+  if (!isRecord(quantities)) {
+    issues.push({ severity: 'error', check: 'invalid-field', source, message: `${property} is not an object` });
+    return;
+  }
+  for (const [itemId, quantity] of Object.entries(quantities)) {
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity <= 0) {
+      issues.push({
+        severity: 'error',
+        check: 'invalid-quantity',
+        source,
+        message: `${property}.${itemId} has the quantity ${JSON.stringify(quantity)}`,
+      });
+    }
+    if (!itemIds.has(itemId)) {
+      issues.push({ severity, check: 'dangling-id', source, message: `${property} refers to unknown item ${itemId}` });
+    }
+  }
+}
+
+function checkItem(issues: Issue[], item: Item, itemIds: Set<string>): void {
+  const source = item.id;
+  if (!item.name?.en) {
+    issues.push({ severity: 'error', check: 'invalid-field', source, message: 'No English name' });
+  }
+  if (typeof item.type !== 'string') {
+    issues.push({ severity: 'error', check: 'invalid-field', source, message: 'No type' });
+  }
+  if (!RARITIES.includes(item.rarity)) {
+    issues.push({ severity: 'error', check: 'invalid-field', source, message: `Unknown rarity ${item.rarity}` });
+  }
+  for (const property of CRAFTING_REFERENCES) {
+    checkQuantities(issues, source, property, item[property], itemIds, 'error');
+  }
+  for (const property of OTHER_REFERENCES) {
+    checkQuantities(issues, source, property, item[property], itemIds, 'warning');
+  }
+  if (!item.imageFilename) {
+    issues.push({ severity: 'warning', check: 'missing-image', source, message: 'No image' });
+  }
+  // Weapon tiers are read from the name suffix when the data has none (see assignWeaponTiers)
+  if (item.isWeapon && typeof item.tier !== 'number' && item.name?.en && !WEAPON_TIER_SUFFIX.test(item.name.en)) {
+    issues.push({
+      severity: 'warning',
+      check: 'weapon-tier',
+      source,
+      message: `Weapon name "${item.name.en}" has no tier suffix (I-IV), so it won't be grouped with its tiers`,
+    });
+  }
+}
+
+/**
+ * Finds items whose recipes (directly or through their ingredients) need the item itself
+ */
+function findRecipeCycles(items: Item[]): string[][] {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const finished = new Set<string>();
+  const path: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (itemId: string) => {
+    const index = path.indexOf(itemId);
+    if (index !== -1) {
+      cycles.push([...path.slice(index), itemId]);
+      return;
+    }
+    if (finished.has(itemId)) {
+      return;
+    }
+    path.push(itemId);
+    const recipe = itemsById.get(itemId)?.recipe;
+    for (const ingredientId of isRecord(recipe) ? Object.keys(recipe) : []) {
+      if (itemsById.has(ingredientId)) {
+        visit(ingredientId);
+      }
+    }
+    path.pop();
+    finished.add(itemId);
+  };
+
+  for (const item of items) {
+    visit(item.id);
+  }
+  return cycles;
+}
+
+/**
+ * Checks the generated data. Errors would break the app (e.g. recipes that
+ * can't be resolved); warnings only lose information (e.g. a missing image).
+ */
+export function validateItemData(items: Item[], modules: HideoutModule[], quests: Quest[]): Issue[] {
+  const issues: Issue[] = [];
+  const itemIds = new Set<string>();
+
+  for (const item of items) {
+    if (itemIds.has(item.id)) {
+      issues.push({ severity: 'error', check: 'duplicate-id', source: item.id, message: 'Id used by several items' });
+    }
+    itemIds.add(item.id);
+  }
+  for (const item of items) {
+    checkItem(issues, item, itemIds);
+  }
+  for (const cycle of findRecipeCycles(items)) {
+    issues.push({ severity: 'error', check: 'recipe-cycle', source: cycle[0], message: cycle.join(' → ') });
+  }
+
+  for (const module of modules) {
+    for (const level of module.levels) {
+      checkQuantities(issues, module.id, `level ${level.level}`, level.requirements, itemIds, 'error');
+    }
+  }
+  for (const quest of quests) {
+    checkQuantities(issues, quest.id, 'requirements', quest.requirements, itemIds, 'error');
+  }
+
+  return issues;
+}
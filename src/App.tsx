@@ -1,33 +1,134 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { Sidebar } from './components/Sidebar';
 import { AccordionList } from './components/AccordionList';
-import { loadAllItems } from './utils/dataLoader';
-import { loadGoalItems, saveGoalItems, loadDisabledItems, saveDisabledItems, loadStashItems, saveStashItems } from './utils/storage';
-import { buildCraftingTree, buildReverseMap } from './utils/craftingChain';
+import { SalvagePlanner } from './components/SalvagePlanner';
+import { FoundInRaidCheck } from './components/FoundInRaidCheck';
+import { LoadoutPlanner } from './components/LoadoutPlanner';
+import { EconomicsTable } from './components/EconomicsTable';
+import { BuildPlan } from './components/BuildPlan';
+import { BlueprintTracker } from './components/BlueprintTracker';
+import { StorageNotice } from './components/StorageNotice';
+import { BackupDialog } from './components/BackupDialog';
+import { SharedPlanPanel } from './components/SharedPlanPanel';
+import { DataChangesPanel } from './components/DataChangesPanel';
+import { Toast } from './components/Toast';
+import { EconomicsContext } from './contexts/EconomicsContext';
+import { LanguageContext, createLanguageContextValue } from './contexts/LanguageContext';
+import type { Language } from './i18n';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { loadAllItems, loadHideoutModules, loadQuests, loadPresets, loadDataChangelog } from './utils/dataLoader';
+import { loadGoalItems, saveGoalItems, loadGoalQuantities, saveGoalQuantities, loadWeaponTierRanges, saveWeaponTierRanges, loadDisabledItems, saveDisabledItems, loadStashCounts, saveStashCounts, loadGoalPremium, saveGoalPremium, loadWorkshopLevels, saveWorkshopLevels, loadLearnedBlueprints, saveLearnedBlueprints, loadCustomGoals, saveCustomGoals, loadGoalGroups, saveGoalGroups, loadGoalGroupMembership, saveGoalGroupMembership, loadSeenDataVersion, saveSeenDataVersion, loadLanguage, saveLanguage, loadProfiles, saveProfiles, setActiveProfile, copyProfileData, deleteProfileData, loadProfileData, saveProfileData, saveStorageDocument, subscribeToStorageChanges } from './utils/storage';
+import { buildCraftingTree, buildReverseMap, buildMaterialTotals, createStashPool, getMissingQuantities, getOutstandingMaterials } from './utils/craftingChain';
+import { getDefaultTierRange, getWeaponTiers, getWeaponUpgradeRecipe, migrateWeaponGoals } from './utils/weaponTiers';
+import type { WeaponTierRange } from './utils/weaponTiers';
+import { getBenchLabel, getStationBlockedGoals } from './utils/workshop';
+import type { StationRequirement, WorkshopLevels } from './utils/workshop';
+import { buildBlueprintIndex, getLockedGoals } from './utils/blueprints';
+import { isCustomGoalId, withCustomGoals } from './utils/customGoals';
+import type { CustomGoal } from './utils/customGoals';
+import { withHideoutUpgrades } from './utils/hideout';
+import { withQuests } from './utils/quests';
+import { createGoalGroupId, getGroupGoalIds, moveGoalGroup } from './utils/goalGroups';
+import type { GoalGroup, GoalGroupMembership } from './utils/goalGroups';
+import { createProfileId } from './utils/profiles';
+import type { ProfilesState } from './utils/profiles';
+import type { ProfileData, ProfileField, StorageDocument } from './utils/storageSchema';
+import { createShareUrl, readSharedPlan } from './utils/shareLink';
+import type { SharedPlan } from './utils/shareLink';
+import { getUnseenEntries } from './utils/changelog';
+import type { DataChangelog } from './types/changelog';
 import type { ItemsMap } from './types/item';
-import type { ReverseMap } from './utils/craftingChain';
+import type { HideoutModule } from './types/hideout';
+import type { Quest } from './types/quest';
+import type { GoalPreset } from './types/preset';
+import type { CraftingTree, MaterialTotals, ReverseMap, StashCounts } from './utils/craftingChain';
 import './styles/main.scss';
 import './styles/accordion.scss';
 
+// Settings that components read from storage themselves
+const COMPONENT_FIELDS: ProfileField[] = [
+  'enabledTypes',
+  'enabledRarities',
+  'sortMode',
+  'hideUnscored',
+  'loadoutSettings',
+  'buildPlanDone',
+];
+
 function App() {
-  const [itemsMap, setItemsMap] = useState<ItemsMap | null>(null);
+  const [profilesState, setProfilesState] = useState<ProfilesState>(() => loadProfiles());
+  const [loadedItemsMap, setLoadedItemsMap] = useState<ItemsMap | null>(null);
+  const [hideoutModules, setHideoutModules] = useState<HideoutModule[]>([]);
+  const [quests, setQuests] = useState<Quest[]>([]);
+  const [presets, setPresets] = useState<GoalPreset[]>([]);
+  const [dataChangelog, setDataChangelog] = useState<DataChangelog | null>(null);
+  const [seenDataVersion, setSeenDataVersion] = useState<string | null>(null);
+  const [language, setLanguage] = useState<Language>(() => loadLanguage());
+  const [customGoals, setCustomGoals] = useState<CustomGoal[]>(() => loadCustomGoals());
   const [goalItemIds, setGoalItemIds] = useState<string[]>([]);
+  const [goalQuantities, setGoalQuantities] = useState<Record<string, number>>({});
+  const [goalGroups, setGoalGroups] = useState<GoalGroup[]>([]);
+  const [goalGroupMembership, setGoalGroupMembership] = useState<GoalGroupMembership>({});
+  const [weaponTierRanges, setWeaponTierRanges] = useState<Record<string, WeaponTierRange>>({});
   const [disabledGoalItemIds, setDisabledGoalItemIds] = useState<Set<string>>(new Set());
-  const [stashItemIds, setStashItemIds] = useState<Set<string>>(new Set());
+  const [stashCounts, setStashCounts] = useState<StashCounts>({});
+  const [goalPremiumPercent, setGoalPremiumPercent] = useState(() => loadGoalPremium());
+  const [workshopLevels, setWorkshopLevels] = useState<WorkshopLevels>(() => loadWorkshopLevels());
+  const [learnedBlueprintIds, setLearnedBlueprintIds] = useState<Set<string>>(() => loadLearnedBlueprints());
+  const [showBackup, setShowBackup] = useState(false);
+  const [sharedPlan, setSharedPlan] = useState<SharedPlan | null>(null);
+  const [sharedPlanError, setSharedPlanError] = useState<string | null>(null);
+  // Bumped when stored data is replaced as a whole, so components re-read their own settings
+  const [dataRevision, setDataRevision] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [craftingTrees, setCraftingTrees] = useState<CraftingTree[]>([]);
   const [reverseMap, setReverseMap] = useState<ReverseMap>(new Map());
+  const [materialTotals, setMaterialTotals] = useState<MaterialTotals>(new Map());
+  const [outstandingMaterials, setOutstandingMaterials] = useState<Map<string, number>>(new Map());
+  const [missingQuantities, setMissingQuantities] = useState<Map<string, number>>(new Map());
+
+  // Custom goals, workstation upgrades and quests take part in planning as synthetic items
+  const itemsMap = useMemo(
+    () =>
+      loadedItemsMap
+        ? withQuests(
+            withHideoutUpgrades(withCustomGoals(loadedItemsMap, customGoals), hideoutModules, workshopLevels),
+            quests
+          )
+        : null,
+    [loadedItemsMap, customGoals, hideoutModules, workshopLevels, quests]
+  );
+
+  // Read everything stored for the active profile
+  const applyProfileState = useCallback((items: ItemsMap) => {
+    const migrated = migrateWeaponGoals(loadGoalItems(), loadWeaponTierRanges(), items);
+    setGoalItemIds(migrated.goalItemIds);
+    setWeaponTierRanges(migrated.tierRanges);
+    setGoalQuantities(loadGoalQuantities());
+    setGoalGroups(loadGoalGroups());
+    setGoalGroupMembership(loadGoalGroupMembership());
+    setDisabledGoalItemIds(loadDisabledItems());
+    setStashCounts(loadStashCounts());
+    setCustomGoals(loadCustomGoals());
+    setGoalPremiumPercent(loadGoalPremium());
+    setWorkshopLevels(loadWorkshopLevels());
+    setLearnedBlueprintIds(loadLearnedBlueprints());
+    setSeenDataVersion(loadSeenDataVersion());
+  }, []);
 
   // Load items on mount
   useEffect(() => {
-    loadAllItems()
-      .then((items) => {
-        setItemsMap(items);
-        setGoalItemIds(loadGoalItems());
-        setDisabledGoalItemIds(loadDisabledItems());
-        setStashItemIds(loadStashItems());
+    Promise.all([loadAllItems(), loadHideoutModules(), loadQuests(), loadPresets(), loadDataChangelog()])
+      .then(([items, modules, questList, presetList, changelog]) => {
+        setLoadedItemsMap(items);
+        setHideoutModules(modules);
+        setQuests(questList);
+        setPresets(presetList);
+        setDataChangelog(changelog);
+        applyProfileState(items);
         setLoading(false);
       })
       .catch((err) => {
@@ -35,12 +136,63 @@ function App() {
         setError(err.message);
         setLoading(false);
       });
+  }, [applyProfileState]);
+
+  // Pick up what other tabs and windows save
+  useEffect(() => {
+    return subscribeToStorageChanges((changedFields) => {
+      setProfilesState(loadProfiles());
+      setLanguage(loadLanguage());
+      if (loadedItemsMap) {
+        applyProfileState(loadedItemsMap);
+      }
+      if (changedFields.some((field) => COMPONENT_FIELDS.includes(field))) {
+        setDataRevision((revision) => revision + 1);
+      }
+    });
+  }, [loadedItemsMap, applyProfileState]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Profiles that never saw a data version start from the current one, there is nothing to compare with
+  useEffect(() => {
+    if (dataChangelog && seenDataVersion === null) {
+      saveSeenDataVersion(dataChangelog.version);
+    }
+  }, [dataChangelog, seenDataVersion]);
+
+  // Show a plan opened from a share link
+  useEffect(() => {
+    const handleHashChange = () => {
+      readSharedPlan(window.location.hash)
+        .then((plan) => {
+          setSharedPlan(plan);
+          setSharedPlanError(null);
+        })
+        .catch((err) => {
+          console.error('Failed to read shared plan:', err);
+          setSharedPlan(null);
+          setSharedPlanError(err.message);
+        });
+    };
+
+    handleHashChange();
+    window.addEventListener('hashchange', handleHashChange);
+    return () => {
+      window.removeEventListener('hashchange', handleHashChange);
+    };
   }, []);
 
   // Build crafting trees and reverse map
   useEffect(() => {
     if (!itemsMap || goalItemIds.length === 0) {
+      setCraftingTrees([]);
       setReverseMap(new Map());
+      setMaterialTotals(new Map());
+      setOutstandingMaterials(new Map());
+      setMissingQuantities(new Map());
       return;
     }
 
@@ -48,83 +200,554 @@ function App() {
     const enabledGoalIds = goalItemIds.filter((id) => !disabledGoalItemIds.has(id));
     
     if (enabledGoalIds.length === 0) {
+      setCraftingTrees([]);
       setReverseMap(new Map());
+      setMaterialTotals(new Map());
+      setOutstandingMaterials(new Map());
+      setMissingQuantities(new Map());
       return;
     }
 
+    // Weapon goals only need the materials between the owned and the target tier
+    const getTierRange = (itemId: string) => {
+      const item = itemsMap[itemId];
+      const tiers = item ? getWeaponTiers(item, itemsMap) : [];
+      if (tiers.length === 0) {
+        return null;
+      }
+      return { tiers, range: weaponTierRanges[itemId] ?? getDefaultTierRange(tiers) };
+    };
+    const getGoalRecipe = (itemId: string) => {
+      const tierRange = getTierRange(itemId);
+      return tierRange ? getWeaponUpgradeRecipe(tierRange.tiers, tierRange.range) : undefined;
+    };
+    // An owned weapon is upgraded, its Tier I item isn't crafted again
+    const isGoalOwned = (itemId: string) => (getTierRange(itemId)?.range.ownedTier ?? 0) >= 1;
+
+    // All trees draw from one stash, in goal order
+    const stashPool = createStashPool(stashCounts);
     const trees = enabledGoalIds.map((itemId) =>
-      buildCraftingTree(itemId, itemsMap, goalItemIds, stashItemIds)
+      buildCraftingTree(
+        itemId,
+        itemsMap,
+        goalItemIds,
+        stashPool,
+        goalQuantities[itemId] ?? 1,
+        getGoalRecipe(itemId),
+        isGoalOwned(itemId)
+      )
     );
 
+    setCraftingTrees(trees);
+
     // Build reverse map for accordion display
-    const reverseMapData = buildReverseMap(trees, itemsMap, stashItemIds);
+    const reverseMapData = buildReverseMap(trees, itemsMap);
     setReverseMap(reverseMapData);
-  }, [itemsMap, goalItemIds, disabledGoalItemIds, stashItemIds]);
+    setMaterialTotals(buildMaterialTotals(trees));
+    setOutstandingMaterials(getOutstandingMaterials(trees));
+    setMissingQuantities(getMissingQuantities(trees));
+  }, [itemsMap, goalItemIds, goalQuantities, weaponTierRanges, disabledGoalItemIds, stashCounts]);
+
+  // Materials still missing after the stash, valued higher when selling or breaking down
+  const neededMaterialIds = useMemo(
+    () =>
+      new Set(
+        Array.from(materialTotals.entries())
+          .filter(([itemId, materialTotal]) => materialTotal.total > (stashCounts[itemId] || 0))
+          .map(([itemId]) => itemId)
+      ),
+    [materialTotals, stashCounts]
+  );
+
+  const blueprintIndex = useMemo(
+    () => (itemsMap ? buildBlueprintIndex(itemsMap) : new Map<string, string>()),
+    [itemsMap]
+  );
+
+  // Goals that can't be crafted until their blueprint is learned
+  const lockedGoals = useMemo(
+    () =>
+      itemsMap
+        ? getLockedGoals(goalItemIds, itemsMap, weaponTierRanges, blueprintIndex, learnedBlueprintIds)
+        : new Map<string, string>(),
+    [goalItemIds, itemsMap, weaponTierRanges, blueprintIndex, learnedBlueprintIds]
+  );
+
+  // Goals held back by a workstation level somewhere in their crafting chain
+  const stationBlockedGoals = useMemo(
+    () =>
+      itemsMap
+        ? getStationBlockedGoals(goalItemIds, craftingTrees, itemsMap, weaponTierRanges, workshopLevels)
+        : new Map<string, StationRequirement>(),
+    [goalItemIds, craftingTrees, itemsMap, weaponTierRanges, workshopLevels]
+  );
+
+  const languageContext = useMemo(() => createLanguageContextValue(language), [language]);
+  const { t, localize } = languageContext;
+
+  const unseenDataChanges = useMemo(
+    () => (dataChangelog && seenDataVersion ? getUnseenEntries(dataChangelog, seenDataVersion) : []),
+    [dataChangelog, seenDataVersion]
+  );
+
+  // Undo puts the changed settings back and re-reads the profile
+  const restoreProfileFields = (data: Partial<ProfileData>, fields: ProfileField[]) => {
+    const stored: Record<string, unknown> = loadProfileData(profilesState.activeProfileId);
+    for (const field of fields) {
+      if (data[field] === undefined) {
+        delete stored[field];
+      } else {
+        stored[field] = data[field];
+      }
+    }
+    saveProfileData(profilesState.activeProfileId, stored as Partial<ProfileData>);
+    if (loadedItemsMap) {
+      applyProfileState(loadedItemsMap);
+    }
+  };
+
+  const undoHistory = useUndoHistory({
+    readState: () => loadProfileData(profilesState.activeProfileId),
+    restoreState: restoreProfileFields,
+  });
 
-  const handleAddGoalItem = (itemId: string) => {
-    if (!goalItemIds.includes(itemId)) {
-      const updated = [...goalItemIds, itemId];
+  const getItemName = (itemId: string) => localize(itemsMap?.[itemId]?.name) || itemId;
+  const getGroupName = (groupId: string) => goalGroups.find((group) => group.id === groupId)?.name || groupId;
+
+  /**
+   * Makes a handler undoable. describe() labels the step ("removed Anvil");
+   * steps with the same coalesce() key in quick succession undo together.
+   */
+  const undoable =
+    <Handler extends (...args: never[]) => void>(
+      describe: (...args: Parameters<Handler>) => string,
+      handler: Handler,
+      coalesce?: (...args: Parameters<Handler>) => string
+    ) =>
+    (...args: Parameters<Handler>) => {
+      undoHistory.record(describe(...args), () => handler(...args), coalesce?.(...args));
+    };
+
+  const handleAddGoalItem = undoable(
+    (itemId: string) => t('undo.addGoal', { name: getItemName(itemId) }),
+    (itemId: string) => {
+      if (!goalItemIds.includes(itemId)) {
+        const updated = [...goalItemIds, itemId];
+        setGoalItemIds(updated);
+        saveGoalItems(updated);
+      }
+    }
+  );
+
+  const handleRemoveGoalItem = undoable(
+    (itemId: string) => t('undo.removeGoal', { name: getItemName(itemId) }),
+    (itemId: string) => {
+      const updated = goalItemIds.filter((id) => id !== itemId);
       setGoalItemIds(updated);
       saveGoalItems(updated);
+    
+      // Also remove from disabled set
+      const newDisabled = new Set(disabledGoalItemIds);
+      newDisabled.delete(itemId);
+      setDisabledGoalItemIds(newDisabled);
+      saveDisabledItems(newDisabled);
+
+      // And forget its target quantity
+      const newQuantities = { ...goalQuantities };
+      delete newQuantities[itemId];
+      setGoalQuantities(newQuantities);
+      saveGoalQuantities(newQuantities);
+
+      // And its weapon tier range
+      const newTierRanges = { ...weaponTierRanges };
+      delete newTierRanges[itemId];
+      setWeaponTierRanges(newTierRanges);
+      saveWeaponTierRanges(newTierRanges);
+
+      // And its group membership
+      const newMembership = { ...goalGroupMembership };
+      delete newMembership[itemId];
+      setGoalGroupMembership(newMembership);
+      saveGoalGroupMembership(newMembership);
+
+      // Custom goals only exist as goals, so drop their definition as well
+      if (isCustomGoalId(itemId)) {
+        const newCustomGoals = customGoals.filter((customGoal) => customGoal.id !== itemId);
+        setCustomGoals(newCustomGoals);
+        saveCustomGoals(newCustomGoals);
+      }
+    }
+  );
+
+  const handleChangeGoalQuantity = undoable(
+    (itemId: string) => t('undo.changeQuantity', { name: getItemName(itemId) }),
+    (itemId: string, quantity: number) => {
+      const newQuantities = { ...goalQuantities, [itemId]: Math.max(1, Math.floor(quantity)) };
+      setGoalQuantities(newQuantities);
+      saveGoalQuantities(newQuantities);
+    },
+    (itemId: string) => `quantity:${itemId}`
+  );
+
+  const handleSaveCustomGoal = undoable(
+    (customGoal: CustomGoal) => t('undo.saveCustomGoal', { name: customGoal.name }),
+    (customGoal: CustomGoal) => {
+      const isNew = !customGoals.some((existing) => existing.id === customGoal.id);
+      const newCustomGoals = isNew
+        ? [...customGoals, customGoal]
+        : customGoals.map((existing) => (existing.id === customGoal.id ? customGoal : existing));
+      setCustomGoals(newCustomGoals);
+      saveCustomGoals(newCustomGoals);
+
+      if (isNew) {
+        handleAddGoalItem(customGoal.id);
+      }
+    }
+  );
+
+  const handleChangeWeaponTierRange = undoable(
+    (itemId: string) => t('undo.changeTiers', { name: getItemName(itemId) }),
+    (itemId: string, range: WeaponTierRange) => {
+      const newTierRanges = { ...weaponTierRanges, [itemId]: range };
+      setWeaponTierRanges(newTierRanges);
+      saveWeaponTierRanges(newTierRanges);
+    }
+  );
+
+  const handleToggleGoalItem = undoable(
+    (itemId: string) =>
+      t(disabledGoalItemIds.has(itemId) ? 'undo.enableGoal' : 'undo.disableGoal', { name: getItemName(itemId) }),
+    (itemId: string) => {
+      const newDisabled = new Set(disabledGoalItemIds);
+      if (newDisabled.has(itemId)) {
+        newDisabled.delete(itemId);
+      } else {
+        newDisabled.add(itemId);
+      }
+      setDisabledGoalItemIds(newDisabled);
+      saveDisabledItems(newDisabled);
+    }
+  );
+
+  const handleReorderGoalItems = undoable(
+    () => t('undo.reorderGoals'),
+    (reorderedIds: string[]) => {
+      setGoalItemIds(reorderedIds);
+      saveGoalItems(reorderedIds);
+    },
+    () => 'move-goal'
+  );
+
+  const handleEnableAllGoalItems = undoable(
+    () => t('undo.enableAll'),
+    () => {
+      const newDisabled = new Set<string>();
+      setDisabledGoalItemIds(newDisabled);
+      saveDisabledItems(newDisabled);
     }
+  );
+
+  const handleDisableAllGoalItems = undoable(
+    () => t('undo.disableAll'),
+    () => {
+      const newDisabled = new Set(goalItemIds);
+      setDisabledGoalItemIds(newDisabled);
+      saveDisabledItems(newDisabled);
+    }
+  );
+
+  const updateGoalGroups = (newGroups: GoalGroup[]) => {
+    setGoalGroups(newGroups);
+    saveGoalGroups(newGroups);
   };
 
-  const handleRemoveGoalItem = (itemId: string) => {
-    const updated = goalItemIds.filter((id) => id !== itemId);
-    setGoalItemIds(updated);
-    saveGoalItems(updated);
-    
-    // Also remove from disabled set
-    const newDisabled = new Set(disabledGoalItemIds);
-    newDisabled.delete(itemId);
-    setDisabledGoalItemIds(newDisabled);
-    saveDisabledItems(newDisabled);
+  const updateGoalGroupMembership = (newMembership: GoalGroupMembership) => {
+    setGoalGroupMembership(newMembership);
+    saveGoalGroupMembership(newMembership);
   };
 
-  const handleToggleGoalItem = (itemId: string) => {
-    const newDisabled = new Set(disabledGoalItemIds);
-    if (newDisabled.has(itemId)) {
-      newDisabled.delete(itemId);
-    } else {
-      newDisabled.add(itemId);
+  const handleAddGoalGroup = undoable(
+    (name: string) => t('undo.addGroup', { name }),
+    (name: string) => {
+      updateGoalGroups([...goalGroups, { id: createGoalGroupId(), name, collapsed: false }]);
     }
-    setDisabledGoalItemIds(newDisabled);
-    saveDisabledItems(newDisabled);
+  );
+
+  const handleRenameGoalGroup = undoable(
+    (groupId: string) => t('undo.renameGroup', { name: getGroupName(groupId) }),
+    (groupId: string, name: string) => {
+      updateGoalGroups(goalGroups.map((group) => (group.id === groupId ? { ...group, name } : group)));
+    }
+  );
+
+  const handleRemoveGoalGroup = undoable(
+    (groupId: string) => t('undo.removeGroup', { name: getGroupName(groupId) }),
+    (groupId: string) => {
+      // The goals stay, they just become ungrouped
+      updateGoalGroups(goalGroups.filter((group) => group.id !== groupId));
+      updateGoalGroupMembership(
+        Object.fromEntries(Object.entries(goalGroupMembership).filter(([, id]) => id !== groupId))
+      );
+    }
+  );
+
+  const handleToggleGoalGroupCollapsed = (groupId: string) => {
+    updateGoalGroups(
+      goalGroups.map((group) => (group.id === groupId ? { ...group, collapsed: !group.collapsed } : group))
+    );
   };
 
-  const handleReorderGoalItems = (reorderedIds: string[]) => {
-    setGoalItemIds(reorderedIds);
-    saveGoalItems(reorderedIds);
+  const handleMoveGoalGroup = undoable(
+    (groupId: string) => t('undo.moveGroup', { name: getGroupName(groupId) }),
+    (groupId: string, offset: number) => {
+      updateGoalGroups(moveGoalGroup(goalGroups, groupId, offset));
+    }
+  );
+
+  const handleToggleGoalGroup = undoable(
+    (groupId: string) => t('undo.toggleGroup', { name: getGroupName(groupId) }),
+    (groupId: string) => {
+      // Disable the whole group if any goal is enabled, otherwise enable all of them
+      const memberIds = getGroupGoalIds(groupId, goalItemIds, goalGroupMembership);
+      const anyEnabled = memberIds.some((id) => !disabledGoalItemIds.has(id));
+      const newDisabled = new Set(disabledGoalItemIds);
+      memberIds.forEach((id) => {
+        if (anyEnabled) {
+          newDisabled.add(id);
+        } else {
+          newDisabled.delete(id);
+        }
+      });
+      setDisabledGoalItemIds(newDisabled);
+      saveDisabledItems(newDisabled);
+    }
+  );
+
+  const handleAssignGoalGroup = undoable(
+    (itemId: string, groupId: string | null) =>
+      groupId
+        ? t('undo.assignGroup', { name: getItemName(itemId), group: getGroupName(groupId) })
+        : t('undo.ungroup', { name: getItemName(itemId) }),
+    (itemId: string, groupId: string | null) => {
+      const newMembership = { ...goalGroupMembership };
+      if (groupId) {
+        newMembership[itemId] = groupId;
+      } else {
+        delete newMembership[itemId];
+      }
+      updateGoalGroupMembership(newMembership);
+    },
+    () => 'move-goal'
+  );
+
+  const handleAddPreset = undoable(
+    (preset: GoalPreset) => t('undo.addPreset', { name: preset.name }),
+    (preset: GoalPreset) => {
+      const entries = preset.goals.filter((entry) => itemsMap?.[entry.itemId]);
+      const groupId = createGoalGroupId();
+
+      const newGoalIds = [...goalItemIds];
+      const newQuantities = { ...goalQuantities };
+      const newMembership = { ...goalGroupMembership };
+      entries.forEach((entry) => {
+        if (!newGoalIds.includes(entry.itemId)) {
+          newGoalIds.push(entry.itemId);
+          if (entry.quantity) {
+            newQuantities[entry.itemId] = entry.quantity;
+          }
+        }
+        newMembership[entry.itemId] = groupId;
+      });
+
+      setGoalItemIds(newGoalIds);
+      saveGoalItems(newGoalIds);
+      setGoalQuantities(newQuantities);
+      saveGoalQuantities(newQuantities);
+      updateGoalGroups([...goalGroups, { id: groupId, name: preset.name, collapsed: false }]);
+      updateGoalGroupMembership(newMembership);
+    }
+  );
+
+  const updateProfilesState = (newState: ProfilesState) => {
+    setProfilesState(newState);
+    saveProfiles(newState);
+  };
+
+  const handleSwitchProfile = (profileId: string) => {
+    setActiveProfile(profileId);
+    updateProfilesState({ ...profilesState, activeProfileId: profileId });
+    undoHistory.clear();
+    if (loadedItemsMap) {
+      applyProfileState(loadedItemsMap);
+    }
   };
 
-  const handleEnableAllGoalItems = () => {
-    const newDisabled = new Set<string>();
-    setDisabledGoalItemIds(newDisabled);
-    saveDisabledItems(newDisabled);
+  const handleCreateProfile = (name: string) => {
+    const profile = { id: createProfileId(), name };
+    setActiveProfile(profile.id);
+    updateProfilesState({ profiles: [...profilesState.profiles, profile], activeProfileId: profile.id });
+    undoHistory.clear();
+    if (loadedItemsMap) {
+      applyProfileState(loadedItemsMap);
+    }
   };
 
-  const handleDisableAllGoalItems = () => {
-    const newDisabled = new Set(goalItemIds);
-    setDisabledGoalItemIds(newDisabled);
-    saveDisabledItems(newDisabled);
+  const handleRenameProfile = (profileId: string, name: string) => {
+    updateProfilesState({
+      ...profilesState,
+      profiles: profilesState.profiles.map((profile) => (profile.id === profileId ? { ...profile, name } : profile)),
+    });
   };
 
-  const handleToggleStashItem = (itemId: string) => {
-    // Prevent goal items from being added to stash
-    if (goalItemIds.includes(itemId)) {
+  const handleCloneProfile = (profileId: string) => {
+    const source = profilesState.profiles.find((profile) => profile.id === profileId);
+    if (!source) {
       return;
     }
+    const profile = { id: createProfileId(), name: `${source.name} (copy)` };
+    copyProfileData(source.id, profile.id);
+    setActiveProfile(profile.id);
+    updateProfilesState({ profiles: [...profilesState.profiles, profile], activeProfileId: profile.id });
+    undoHistory.clear();
+    if (loadedItemsMap) {
+      applyProfileState(loadedItemsMap);
+    }
+  };
 
-    const newStash = new Set(stashItemIds);
-    if (newStash.has(itemId)) {
-      newStash.delete(itemId);
+  const handleDeleteProfile = (profileId: string) => {
+    // The last profile can't be deleted
+    const remaining = profilesState.profiles.filter((profile) => profile.id !== profileId);
+    if (remaining.length === 0) {
+      return;
+    }
+    deleteProfileData(profileId);
+    if (profileId === profilesState.activeProfileId) {
+      setActiveProfile(remaining[0].id);
+      updateProfilesState({ profiles: remaining, activeProfileId: remaining[0].id });
+      undoHistory.clear();
+      if (loadedItemsMap) {
+        applyProfileState(loadedItemsMap);
+      }
     } else {
-      newStash.add(itemId);
+      updateProfilesState({ ...profilesState, profiles: remaining });
+    }
+  };
+
+  const handleCreateShareLink = () => {
+    const activeProfile = profilesState.profiles.find((profile) => profile.id === profilesState.activeProfileId);
+    return createShareUrl({
+      name: activeProfile?.name || 'Shared plan',
+      goalItems: goalItemIds,
+      goalQuantities,
+      weaponTiers: weaponTierRanges,
+      stashCounts,
+      customGoals: customGoals.filter((customGoal) => goalItemIds.includes(customGoal.id)),
+    });
+  };
+
+  const handleCloseSharedPlan = () => {
+    // Drop the fragment so a reload doesn't show the plan again
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setSharedPlan(null);
+    setSharedPlanError(null);
+  };
+
+  const handleAdoptSharedPlan = (plan: SharedPlan) => {
+    const profile = { id: createProfileId(), name: plan.name };
+    saveProfileData(profile.id, {
+      goalItems: plan.goalItems,
+      goalQuantities: plan.goalQuantities,
+      weaponTiers: plan.weaponTiers,
+      stashCounts: plan.stashCounts,
+      customGoals: plan.customGoals,
+    });
+    setActiveProfile(profile.id);
+    updateProfilesState({ profiles: [...profilesState.profiles, profile], activeProfileId: profile.id });
+    undoHistory.clear();
+    if (loadedItemsMap) {
+      applyProfileState(loadedItemsMap);
+    }
+    handleCloseSharedPlan();
+  };
+
+  const handleImportBackup = (document: StorageDocument) => {
+    saveStorageDocument(document);
+    setProfilesState(loadProfiles());
+    setLanguage(loadLanguage());
+    undoHistory.clear();
+    if (loadedItemsMap) {
+      applyProfileState(loadedItemsMap);
+    }
+    setDataRevision((revision) => revision + 1);
+    setShowBackup(false);
+  };
+
+  const handleSetStashCount = undoable(
+    (itemId: string, count: number) => t('undo.setStash', { name: getItemName(itemId), count }),
+    (itemId: string, count: number) => {
+      // Prevent goal items from being added to stash
+      if (goalItemIds.includes(itemId)) {
+        return;
+      }
+
+      const newStash = { ...stashCounts };
+      if (count > 0) {
+        newStash[itemId] = Math.floor(count);
+      } else {
+        delete newStash[itemId];
+      }
+      setStashCounts(newStash);
+      saveStashCounts(newStash);
+    },
+    (itemId: string) => `stash:${itemId}`
+  );
+
+
+  const handleDismissDataChanges = () => {
+    if (dataChangelog) {
+      setSeenDataVersion(dataChangelog.version);
+      saveSeenDataVersion(dataChangelog.version);
     }
-    setStashItemIds(newStash);
-    saveStashItems(newStash);
   };
 
+  const handleChangeLanguage = (newLanguage: Language) => {
+    setLanguage(newLanguage);
+    saveLanguage(newLanguage);
+  };
+
+  const handleChangeGoalPremium = (percent: number) => {
+    setGoalPremiumPercent(percent);
+    saveGoalPremium(percent);
+  };
+
+  const handleChangeWorkshopLevel = undoable(
+    (benchId: string) => t('undo.changeWorkshopLevel', { bench: getBenchLabel(benchId) }),
+    (benchId: string, level: number | null) => {
+      const newLevels = { ...workshopLevels };
+      if (level === null) {
+        delete newLevels[benchId];
+      } else {
+        newLevels[benchId] = level;
+      }
+      setWorkshopLevels(newLevels);
+      saveWorkshopLevels(newLevels);
+    }
+  );
+
+  const handleSetBlueprintLearned = undoable(
+    (blueprintId: string, learned: boolean) =>
+      t(learned ? 'undo.learnBlueprint' : 'undo.unlearnBlueprint', { name: getItemName(blueprintId) }),
+    (blueprintId: string, learned: boolean) => {
+      const newLearned = new Set(learnedBlueprintIds);
+      if (learned) {
+        newLearned.add(blueprintId);
+      } else {
+        newLearned.delete(blueprintId);
+      }
+      setLearnedBlueprintIds(newLearned);
+      saveLearnedBlueprints(newLearned);
+    }
+  );
 
   if (loading) {
     return (
@@ -180,39 +803,168 @@ function App() {
     );
   }
 
+  const enabledGoalItemIds = goalItemIds.filter((id) => !disabledGoalItemIds.has(id));
+  const stateKey = `${profilesState.activeProfileId}:${dataRevision}`;
+  const showSharedPlan = sharedPlan !== null || sharedPlanError !== null;
+  const emptyState = (
+    <div className="empty-state">
+      Add goal items from the sidebar to see what materials you need to loot.
+    </div>
+  );
+
   return (
-    <>
-      <Header />
-      <div className="main-content">
-        <Sidebar
-          itemsMap={itemsMap}
-          goalItemIds={goalItemIds}
-          disabledItemIds={disabledGoalItemIds}
-          onAddGoalItem={handleAddGoalItem}
-          onRemoveGoalItem={handleRemoveGoalItem}
-          onToggleGoalItem={handleToggleGoalItem}
-          onReorderGoalItems={handleReorderGoalItems}
-          onEnableAllGoalItems={handleEnableAllGoalItems}
-          onDisableAllGoalItems={handleDisableAllGoalItems}
+    <LanguageContext.Provider value={languageContext}>
+      <EconomicsContext.Provider value={{ neededMaterialIds, goalPremiumPercent }}>
+        <Header
+          profiles={profilesState.profiles}
+          activeProfileId={profilesState.activeProfileId}
+          onSwitchProfile={handleSwitchProfile}
+          onCreateProfile={handleCreateProfile}
+          onRenameProfile={handleRenameProfile}
+          onCloneProfile={handleCloneProfile}
+          onDeleteProfile={handleDeleteProfile}
+          onOpenBackup={() => setShowBackup(true)}
+          onCreateShareLink={handleCreateShareLink}
+          undoLabel={undoHistory.nextUndoLabel}
+          redoLabel={undoHistory.nextRedoLabel}
+          onUndo={undoHistory.undo}
+          onRedo={undoHistory.redo}
+          onChangeLanguage={handleChangeLanguage}
         />
-        <div className="main-content-area">
-          {goalItemIds.length === 0 ? (
-            <div className="empty-state">
-              Add goal items from the sidebar to see what materials you need to loot.
-            </div>
-          ) : (
-            <AccordionList
-              itemsMap={itemsMap}
-              goalItemIds={goalItemIds.filter((id) => !disabledGoalItemIds.has(id))}
-              reverseMap={reverseMap}
-              stashItemIds={stashItemIds}
-              onToggleStashItem={handleToggleStashItem}
-            />
-          )}
+        <StorageNotice />
+        {showBackup && (
+          <BackupDialog itemsMap={itemsMap} onImport={handleImportBackup} onClose={() => setShowBackup(false)} />
+        )}
+        <div className="main-content">
+          <Sidebar
+            key={stateKey}
+            itemsMap={itemsMap}
+            goalItemIds={goalItemIds}
+            goalQuantities={goalQuantities}
+            goalGroups={goalGroups}
+            goalGroupMembership={goalGroupMembership}
+            presets={presets}
+            customGoals={customGoals}
+            weaponTierRanges={weaponTierRanges}
+            disabledItemIds={disabledGoalItemIds}
+            hideoutModules={hideoutModules}
+            workshopLevels={workshopLevels}
+            lockedGoals={lockedGoals}
+            stationBlockedGoals={stationBlockedGoals}
+            onAddGoalItem={handleAddGoalItem}
+            onRemoveGoalItem={handleRemoveGoalItem}
+            onChangeGoalQuantity={handleChangeGoalQuantity}
+            onSaveCustomGoal={handleSaveCustomGoal}
+            onChangeWeaponTierRange={handleChangeWeaponTierRange}
+            onToggleGoalItem={handleToggleGoalItem}
+            onReorderGoalItems={handleReorderGoalItems}
+            onEnableAllGoalItems={handleEnableAllGoalItems}
+            onDisableAllGoalItems={handleDisableAllGoalItems}
+            onAddGoalGroup={handleAddGoalGroup}
+            onRenameGoalGroup={handleRenameGoalGroup}
+            onRemoveGoalGroup={handleRemoveGoalGroup}
+            onToggleGoalGroupCollapsed={handleToggleGoalGroupCollapsed}
+            onMoveGoalGroup={handleMoveGoalGroup}
+            onToggleGoalGroup={handleToggleGoalGroup}
+            onAssignGoalGroup={handleAssignGoalGroup}
+            onAddPreset={handleAddPreset}
+            onChangeWorkshopLevel={handleChangeWorkshopLevel}
+          />
+          <div className="main-content-area">
+            {goalItemIds.length === 0 && !showSharedPlan ? (
+              emptyState
+            ) : (
+              <div className="main-content-columns">
+                <div className="main-content-list">
+                  {goalItemIds.length === 0 ? (
+                    emptyState
+                  ) : (
+                    <>
+                      {/* Components keeping their own stored settings restart when switching profiles or restoring a backup */}
+                      <AccordionList
+                        key={stateKey}
+                        itemsMap={itemsMap}
+                        goalItemIds={enabledGoalItemIds}
+                        reverseMap={reverseMap}
+                        materialTotals={materialTotals}
+                        stashCounts={stashCounts}
+                        missingQuantities={missingQuantities}
+                        outstandingMaterials={outstandingMaterials}
+                        onSetStashCount={handleSetStashCount}
+                      />
+                    </>
+                  )}
+                </div>
+                <div className="side-panels">
+                  {showSharedPlan && (
+                    <SharedPlanPanel
+                      itemsMap={itemsMap}
+                      sharedPlan={sharedPlan}
+                      error={sharedPlanError}
+                      goalItemIds={goalItemIds}
+                      outstandingMaterials={outstandingMaterials}
+                      onAdopt={handleAdoptSharedPlan}
+                      onClose={handleCloseSharedPlan}
+                    />
+                  )}
+                  {goalItemIds.length > 0 && (
+                    <>
+                      {unseenDataChanges.length > 0 && (
+                        <DataChangesPanel
+                          itemsMap={itemsMap}
+                          entries={unseenDataChanges}
+                          goalItemIds={goalItemIds}
+                          materialTotals={materialTotals}
+                          stashCounts={stashCounts}
+                          onDismiss={handleDismissDataChanges}
+                        />
+                      )}
+                      <FoundInRaidCheck
+                        itemsMap={itemsMap}
+                        goalItemIds={enabledGoalItemIds}
+                        materialTotals={materialTotals}
+                        missingQuantities={missingQuantities}
+                        outstandingMaterials={outstandingMaterials}
+                      />
+                      <LoadoutPlanner
+                        key={stateKey}
+                        itemsMap={itemsMap}
+                        goalItemIds={goalItemIds}
+                        materialTotals={materialTotals}
+                        craftingTrees={craftingTrees}
+                      />
+                      <BuildPlan
+                        key={stateKey}
+                        itemsMap={itemsMap}
+                        craftingTrees={craftingTrees}
+                        workshopLevels={workshopLevels}
+                      />
+                      <BlueprintTracker
+                        itemsMap={itemsMap}
+                        lockedGoals={lockedGoals}
+                        learnedBlueprintIds={learnedBlueprintIds}
+                        onSetBlueprintLearned={handleSetBlueprintLearned}
+                      />
+                      <EconomicsTable
+                        itemsMap={itemsMap}
+                        onChangeGoalPremium={handleChangeGoalPremium}
+                      />
+                      <SalvagePlanner
+                        itemsMap={itemsMap}
+                        goalItemIds={goalItemIds}
+                        outstandingMaterials={outstandingMaterials}
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
-      <Footer />
-    </>
+        <Footer />
+        {undoHistory.notice && <Toast key={undoHistory.notice.id} text={undoHistory.notice.text} />}
+      </EconomicsContext.Provider>
+    </LanguageContext.Provider>
   );
 }
 
@@ -1,47 +1,91 @@
 import { useState, useEffect, useRef } from 'react';
 import { ChevronUp, ChevronDown, Filter } from 'lucide-react';
-import type { ItemsMap, ItemRarity } from '../types/item';
-import type { ReverseMap } from '../utils/craftingChain';
+import type { Item, ItemsMap, ItemRarity } from '../types/item';
+import type { MaterialTotals, ReverseMap, StashCounts } from '../utils/craftingChain';
 import { ItemHierarchy } from './ItemHierarchy';
 import { ItemIconWithInfo } from './ItemIconWithInfo';
-import { getRarityClass } from '../utils/dataLoader';
-import { loadEnabledTypes, saveEnabledTypes, loadEnabledRarities, saveEnabledRarities } from '../utils/storage';
+import { getItemsById, getRarityClass } from '../utils/dataLoader';
+import { loadEnabledTypes, saveEnabledTypes, loadEnabledRarities, saveEnabledRarities, loadSortMode, saveSortMode, loadHideUnscored, saveHideUnscored } from '../utils/storage';
+import { getLootScore } from '../utils/lootScore';
+import type { LootScore, LootSortMode } from '../utils/lootScore';
+import { useLanguage } from '../contexts/LanguageContext';
+import { matchesItemName } from '../i18n';
+import type { MessageKey } from '../i18n';
 
 interface AccordionListProps {
   itemsMap: ItemsMap;
   goalItemIds: string[];
   reverseMap: ReverseMap;
-  stashItemIds: Set<string>;
-  onToggleStashItem: (itemId: string) => void;
+  materialTotals: MaterialTotals;
+  stashCounts: StashCounts;
+  missingQuantities: Map<string, number>; // Every ingredient still missing after the stash, intermediates included
+  outstandingMaterials: Map<string, number>; // Base materials still missing after the stash
+  onSetStashCount: (itemId: string, count: number) => void;
 }
 
-export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds, onToggleStashItem }: AccordionListProps) {
+export function AccordionList({ itemsMap, goalItemIds, reverseMap, materialTotals, stashCounts, missingQuantities, outstandingMaterials, onSetStashCount }: AccordionListProps) {
+  const { language, t, localize } = useLanguage();
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
   const [enabledTypes, setEnabledTypes] = useState<Set<string>>(new Set());
   const [enabledRarities, setEnabledRarities] = useState<Set<ItemRarity>>(new Set());
   const [stashSectionExpanded, setStashSectionExpanded] = useState(false);
   const [filtersExpanded, setFiltersExpanded] = useState(true);
+  const [sortMode, setSortMode] = useState<LootSortMode>(() => loadSortMode());
+  const [hideUnscored, setHideUnscored] = useState(() => loadHideUnscored());
   const itemRefs = useRef<Map<string, HTMLDivElement>>(new Map());
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  const getRequiredQuantity = (itemId: string) => materialTotals.get(itemId)?.total || 0;
+
+  // An item is covered once the stash holds everything the goals need of it
+  const isCoveredByStash = (itemId: string) => {
+    const requiredQuantity = getRequiredQuantity(itemId);
+    return requiredQuantity > 0 && (stashCounts[itemId] || 0) >= requiredQuantity;
+  };
+
   // Get all items that are in the reverse map (i.e., needed for crafting)
-  // Exclude goal items and stash items from the list
+  // Exclude goal items and items fully covered by the stash from the list
   const requiredItemIds = Array.from(reverseMap.keys()).filter(
-    (id) => !goalItemIds.includes(id) && !stashItemIds.has(id)
+    (id) => !goalItemIds.includes(id) && !isCoveredByStash(id)
+  );
+
+  // Get items that are needed but already fully covered by the stash
+  const stashLookup = getItemsById(
+    Array.from(reverseMap.keys()).filter((id) => !goalItemIds.includes(id) && isCoveredByStash(id)),
+    itemsMap
+  );
+  const compareByName = (a: Item, b: Item) => localize(a.name).localeCompare(localize(b.name), language);
+  const stashItems = stashLookup.items.sort(compareByName);
+
+  // Needed intermediates score directly; breaking items down only counts base materials,
+  // as an intermediate and its ingredients are alternatives, not both missing
+  const getMissing = (itemId: string) => missingQuantities.get(itemId) || 0;
+  const getMissingMaterial = (itemId: string) => outstandingMaterials.get(itemId) || 0;
+
+  // Score how much of the outstanding requirements each item covers
+  const requiredLookup = getItemsById(requiredItemIds, itemsMap);
+  const lootScores = new Map<string, LootScore>(
+    requiredLookup.items.map((item) => [item.id, getLootScore(item, getMissing, getMissingMaterial)])
   );
+  // Needed by a goal but missing from the item data, e.g. a custom goal material from an older backup
+  const unknownItemIds = [...requiredLookup.unknownIds, ...stashLookup.unknownIds];
 
-  // Get items that are in stash and were previously needed
-  const stashItems = Array.from(stashItemIds)
-    .map((id) => itemsMap[id])
-    .filter((item) => item !== undefined)
-    .sort((a, b) => a.name.en.localeCompare(b.name.en));
+  const compareByScore = (a: number | null, b: number | null) => (b ?? -1) - (a ?? -1);
 
-  // Get items and sort alphabetically
-  const sortedItems = requiredItemIds
-    .map((id) => itemsMap[id])
-    .filter((item) => item !== undefined)
-    .sort((a, b) => a.name.en.localeCompare(b.name.en));
+  // Get items and sort alphabetically or by loot efficiency
+  const sortedItems = requiredLookup.items
+    .sort((a, b) => {
+      const scoreA = lootScores.get(a.id)!;
+      const scoreB = lootScores.get(b.id)!;
+      const byScore =
+        sortMode === 'slot'
+          ? compareByScore(scoreA.perSlot, scoreB.perSlot)
+          : sortMode === 'weight'
+            ? compareByScore(scoreA.perKg, scoreB.perKg)
+            : 0;
+      return byScore || compareByName(a, b);
+    });
 
   // Get all unique types from sorted items
   const allTypes = Array.from(
@@ -89,7 +133,7 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
   // Filter based on search term, enabled types, and enabled rarities
   const filteredItems = sortedItems.filter((item) => {
     // Filter by search term
-    if (searchTerm.trim() && !item.name.en.toLowerCase().includes(searchTerm.toLowerCase())) {
+    if (searchTerm.trim() && !matchesItemName(item.name, searchTerm, language)) {
       return false;
     }
     // Filter by type
@@ -100,6 +144,10 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
     if (!enabledRarities.has(item.rarity)) {
       return false;
     }
+    // Filter out items that cover nothing of what is still missing
+    if (hideUnscored && lootScores.get(item.id)!.coverage === 0) {
+      return false;
+    }
     return true;
   });
 
@@ -172,6 +220,16 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
     saveEnabledRarities(emptySet);
   };
 
+  const handleChangeSortMode = (mode: LootSortMode) => {
+    setSortMode(mode);
+    saveSortMode(mode);
+  };
+
+  const handleToggleHideUnscored = () => {
+    setHideUnscored(!hideUnscored);
+    saveHideUnscored(!hideUnscored);
+  };
+
   const handleToggleFilters = () => {
     const newExpanded = !filtersExpanded;
     setFiltersExpanded(newExpanded);
@@ -193,7 +251,7 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
         )}
         
         {enabledTypes.size === 0 ? (
-          <span className="filter-summary-none">nothing</span>
+          <span className="filter-summary-none">{t('accordion.nothing')}</span>
         ) : enabledTypes.size < allTypes.length ? (
           <div className="filter-summary-badges">
             {Array.from(enabledTypes).sort().map((type) => (
@@ -205,7 +263,7 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
         ) : null}
         
         {enabledRarities.size === 0 ? (
-          <span className="filter-summary-none">nothing</span>
+          <span className="filter-summary-none">{t('accordion.nothing')}</span>
         ) : enabledRarities.size < allRarities.length ? (
           <div className="filter-summary-badges">
             {Array.from(enabledRarities).sort((a, b) => 
@@ -243,34 +301,60 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
         {filtersExpanded && (
           <div className="filters-controls">
             <div className="filter-row">
-              <label className="filter-label">Search</label>
+              <label className="filter-label">{t('accordion.search')}</label>
               <input
                 ref={searchInputRef}
                 type="text"
-                placeholder="Type to search items..."
+                placeholder={t('accordion.searchPlaceholder')}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="accordion-search-input"
               />
             </div>
 
+            <div className="filter-row">
+              <label className="filter-label">{t('accordion.sort')}</label>
+              <div className="filter-buttons">
+                {([
+                  ['name', 'accordion.sortName'],
+                  ['slot', 'accordion.sortSlot'],
+                  ['weight', 'accordion.sortWeight'],
+                ] as [LootSortMode, MessageKey][]).map(([mode, labelKey]) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleChangeSortMode(mode)}
+                    className={`filter-button ${sortMode === mode ? 'enabled' : 'disabled'}`}
+                  >
+                    {t(labelKey)}
+                  </button>
+                ))}
+                <button
+                  onClick={handleToggleHideUnscored}
+                  className={`filter-button ${hideUnscored ? 'enabled' : 'disabled'}`}
+                  title={t('accordion.onlyWorthSlotTitle')}
+                >
+                  {t('accordion.onlyWorthSlot')}
+                </button>
+              </div>
+            </div>
+
             {allTypes.length > 0 && (
               <div className="filter-row">
-                <label className="filter-label">Type</label>
+                <label className="filter-label">{t('accordion.type')}</label>
                 <div className="filter-buttons">
                   <button
                     onClick={handleEnableAllTypes}
                     className="filter-action-button"
                     disabled={enabledTypes.size === allTypes.length}
                   >
-                    All
+                    {t('accordion.all')}
                   </button>
                   <button
                     onClick={handleDisableAllTypes}
                     className="filter-action-button"
                     disabled={enabledTypes.size === 0}
                   >
-                    None
+                    {t('accordion.none')}
                   </button>
                   {allTypes.map((type) => (
                     <button
@@ -289,21 +373,21 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
 
             {allRarities.length > 0 && (
               <div className="filter-row">
-                <label className="filter-label">Rarity</label>
+                <label className="filter-label">{t('accordion.rarity')}</label>
                 <div className="filter-buttons">
                   <button
                     onClick={handleEnableAllRarities}
                     className="filter-action-button"
                     disabled={enabledRarities.size === allRarities.length}
                   >
-                    All
+                    {t('accordion.all')}
                   </button>
                   <button
                     onClick={handleDisableAllRarities}
                     className="filter-action-button"
                     disabled={enabledRarities.size === 0}
                   >
-                    None
+                    {t('accordion.none')}
                   </button>
                   {allRarities.map((rarity) => (
                     <button
@@ -324,10 +408,15 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
       </div>
 
       <div className="accordion-items">
+        {unknownItemIds.length > 0 && (
+          <div className="accordion-unknown-items">
+            {t('accordion.unknownItems', { ids: unknownItemIds.join(', ') })}
+          </div>
+        )}
         {sortedItems.length === 0 ? (
-          <div className="accordion-no-results">No items needed for your goals.</div>
+          <div className="accordion-no-results">{t('accordion.noItemsNeeded')}</div>
         ) : filteredItems.length === 0 ? (
-          <div className="accordion-no-results">No items found matching "{searchTerm}"</div>
+          <div className="accordion-no-results">{t('accordion.noResults', { search: searchTerm })}</div>
         ) : (
           filteredItems.map((item) => {
             const isExpanded = expandedItemId === item.id;
@@ -338,6 +427,11 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
             const goalCount = new Set(
               usageInfo.flatMap(usage => usage.goalItemIds)
             ).size;
+            const requiredQuantity = getRequiredQuantity(item.id);
+            const requiredByGoal = Array.from(materialTotals.get(item.id)?.byGoal.entries() || []);
+            const ownedQuantity = stashCounts[item.id] || 0;
+            const lootQuantity = Math.max(0, requiredQuantity - ownedQuantity);
+            const lootScore = lootScores.get(item.id)!;
             
             // Determine priority level for styling
             let priorityLevel = 'default';
@@ -373,18 +467,56 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
                         className={`accordion-item-icon ${getRarityClass(item.rarity)}`}
                       />
                     )}
-                    <span className="accordion-item-name">{item.name.en}</span>
-                    {isGoal && <span className="accordion-item-goal-badge">Goal</span>}
+                    <span className="accordion-item-name">{localize(item.name)}</span>
+                    {isGoal && <span className="accordion-item-goal-badge">{t('accordion.goalBadge')}</span>}
                   </div>
                   <div className="accordion-item-header-right">
-                    {!isGoal && (
+                    {sortMode !== 'name' && (
+                      <span
+                        className="accordion-item-score"
+                        title={`${t('accordion.scoreTitle', { coverage: lootScore.coverage })}${
+                          lootScore.source ? ` (${lootScore.source})` : ''
+                        }`}
+                      >
+                        {sortMode === 'slot'
+                          ? t('accordion.perSlot', { value: lootScore.perSlot.toFixed(1) })
+                          : t('accordion.perKg', { value: lootScore.perKg !== null ? lootScore.perKg.toFixed(1) : '–' })}
+                      </span>
+                    )}
+                    {!isGoal && requiredQuantity > 0 && (
+                      <div
+                        className="accordion-item-stash-counts"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <span title={t('accordion.needTitle')}>
+                          {t('accordion.need')} <strong>{requiredQuantity}</strong>
+                        </span>
+                        <label title={t('accordion.haveTitle')}>
+                          {t('accordion.have')}
+                          <input
+                            type="number"
+                            min={0}
+                            className="accordion-item-stash-input"
+                            value={ownedQuantity}
+                            onChange={(e) => {
+                              const count = parseInt(e.target.value, 10);
+                              onSetStashCount(item.id, isNaN(count) ? 0 : count);
+                            }}
+                          />
+                        </label>
+                        <span className="accordion-item-loot" title={t('accordion.lootTitle')}>
+                          {t('accordion.loot')} <strong>{lootQuantity}</strong>
+                        </span>
+                      </div>
+                    )}
+                    {!isGoal && requiredQuantity > 0 && (
                       <button
                         className="accordion-item-stash-button"
                         onClick={(e) => {
                           e.stopPropagation();
-                          onToggleStashItem(item.id);
+                          onSetStashCount(item.id, requiredQuantity);
                         }}
-                        title="I have already enough of this material"
+                        title={t('accordion.enoughTitle')}
                       >
                         −
                       </button>
@@ -402,6 +534,17 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
 
                 {isExpanded && (
                   <div className="accordion-item-content">
+                    {requiredByGoal.length > 0 && (
+                      <div className="accordion-item-breakdown">
+                        <span className="accordion-item-breakdown-label">{t('accordion.requiredFor')}</span>
+                        {requiredByGoal.map(([goalItemId, quantity]) => (
+                          <span key={goalItemId} className="accordion-item-breakdown-goal">
+                            {localize(itemsMap[goalItemId]?.name) || goalItemId}
+                            <span className="hierarchy-item-quantity">×{quantity}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
                     <ItemHierarchy
                       itemId={item.id}
                       itemsMap={itemsMap}
@@ -424,7 +567,7 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
             onClick={() => setStashSectionExpanded(!stashSectionExpanded)}
           >
             <div className="accordion-stash-header-content">
-              <h3 className="accordion-stash-title">Already Enough in Stash</h3>
+              <h3 className="accordion-stash-title">{t('accordion.stashTitle')}</h3>
               <span className="accordion-stash-count-badge">{stashItems.length}</span>
             </div>
             <span className="accordion-stash-toggle">
@@ -444,12 +587,15 @@ export function AccordionList({ itemsMap, goalItemIds, reverseMap, stashItemIds,
                         className={`accordion-item-icon ${getRarityClass(item.rarity)}`}
                       />
                     )}
-                    <span className="accordion-stash-item-name">{item.name.en}</span>
+                    <span className="accordion-stash-item-name">{localize(item.name)}</span>
+                    <span className="accordion-stash-item-counts">
+                      {t('accordion.stashCounts', { have: stashCounts[item.id], need: getRequiredQuantity(item.id) })}
+                    </span>
                   </div>
                   <button
                     className="accordion-stash-item-restore-button"
-                    onClick={() => onToggleStashItem(item.id)}
-                    title="Add back to required materials"
+                    onClick={() => onSetStashCount(item.id, 0)}
+                    title={t('accordion.restoreTitle')}
                   >
                     +
                   </button>
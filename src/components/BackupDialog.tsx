@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, TriangleAlert, Upload } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import { loadStorageDocument } from '../utils/storage';
+import {
+  createBackup,
+  diffDocuments,
+  findUnknownItemIds,
+  getBackupFilename,
+  mergeDocuments,
+  parseBackup,
+} from '../utils/backup';
+import type { FieldChange, ImportMode } from '../utils/backup';
+import type { QuarantineEntry, StorageDocument } from '../utils/storageSchema';
+
+interface BackupDialogProps {
+  itemsMap: ItemsMap;
+  onImport: (document: StorageDocument) => void;
+  onClose: () => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  document: StorageDocument;
+  invalid: QuarantineEntry[];
+}
+
+function formatFieldChange(change: FieldChange): string {
+  const parts = [
+    change.added > 0 && `+${change.added}`,
+    change.removed > 0 && `−${change.removed}`,
+    change.changed > 0 && `${change.changed} changed`,
+  ].filter(Boolean);
+  return `${change.label}: ${parts.join(', ')}`;
+}
+
+export function BackupDialog({ itemsMap, onImport, onClose }: BackupDialogProps) {
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  // What the stored data would look like after the import
+  const preview = useMemo(() => {
+    if (!pendingImport) {
+      return null;
+    }
+    const current = loadStorageDocument();
+    const next = importMode === 'merge' ? mergeDocuments(current, pendingImport.document) : pendingImport.document;
+    return {
+      next,
+      changes: diffDocuments(current, next),
+      unknownItemIds: findUnknownItemIds(pendingImport.document, itemsMap),
+    };
+  }, [pendingImport, importMode, itemsMap]);
+
+  const handleExport = () => {
+    const backup = createBackup(loadStorageDocument());
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getBackupFilename();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const { document, invalid } = parseBackup(text);
+        setPendingImport({ fileName: file.name, document, invalid });
+        setImportError(null);
+      })
+      .catch((err) => {
+        setPendingImport(null);
+        setImportError(err.message);
+      });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (preview) {
+      onImport(preview.next);
+    }
+  };
+
+  return (
+    <div className="help-dialog-overlay" onClick={onClose}>
+      <div className="help-dialog backup-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="help-dialog-header">
+          <h2>Backup &amp; Restore</h2>
+          <button className="help-dialog-close" onClick={onClose}>&times;</button>
+        </div>
+        <div className="help-dialog-content">
+          <section>
+            <h3>Export</h3>
+            <p>Download all profiles with their goals, stash, filters and settings as a JSON file.</p>
+            <button className="backup-dialog-button" onClick={handleExport}>
+              <Download size={14} />
+              Download backup
+            </button>
+          </section>
+
+          <section>
+            <h3>Import</h3>
+            <div
+              className={`backup-dialog-dropzone ${isDragOver ? 'drag-over' : ''}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragOver(true);
+              }}
+              onDragLeave={() => setIsDragOver(false)}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload size={20} />
+              <span>Drop a backup file here or click to choose one</span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    handleFile(file);
+                  }
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {importError && <div className="backup-dialog-error">{importError}</div>}
+          </section>
+
+          {pendingImport && preview && (
+            <section className="backup-dialog-preview">
+              <h3>Preview: {pendingImport.fileName}</h3>
+              <div className="backup-dialog-modes">
+                <label>
+                  <input
+                    type="radio"
+                    checked={importMode === 'merge'}
+                    onChange={() => setImportMode('merge')}
+                  />
+                  Merge into your data
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    checked={importMode === 'replace'}
+                    onChange={() => setImportMode('replace')}
+                  />
+                  Replace all your data
+                </label>
+              </div>
+
+              {preview.changes.length === 0 ? (
+                <p>Nothing would change.</p>
+              ) : (
+                <ul className="backup-dialog-changes">
+                  {preview.changes.map((change) => (
+                    <li key={change.profileId} className={change.status}>
+                      <strong>{change.name}</strong>
+                      {change.status === 'added' && ' (new profile)'}
+                      {change.status === 'removed' && ' (profile removed)'}
+                      {change.fields.length > 0 && (
+                        <ul>
+                          {change.fields.map((fieldChange) => (
+                            <li key={fieldChange.field}>{formatFieldChange(fieldChange)}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {preview.unknownItemIds.length > 0 && (
+                <div className="backup-dialog-warning">
+                  <TriangleAlert size={14} />
+                  <span>
+                    Not in the current item data, listed as unknown after the import:{' '}
+                    {preview.unknownItemIds.join(', ')}
+                  </span>
+                </div>
+              )}
+              {pendingImport.invalid.length > 0 && (
+                <div className="backup-dialog-warning">
+                  <TriangleAlert size={14} />
+                  <span>
+                    Invalid and skipped: {pendingImport.invalid.map((entry) => entry.source).join(', ')}
+                  </span>
+                </div>
+              )}
+
+              <div className="backup-dialog-actions">
+                <button
+                  className="backup-dialog-button primary"
+                  onClick={handleConfirmImport}
+                  disabled={preview.changes.length === 0}
+                >
+                  {importMode === 'merge' ? 'Merge' : 'Replace'}
+                </button>
+                <button className="backup-dialog-button" onClick={() => setPendingImport(null)}>
+                  Cancel
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import { getBlueprintsToHunt, isBlueprint } from '../utils/blueprints';
+import { getRarityClass } from '../utils/dataLoader';
+import { ItemIconWithInfo } from './ItemIconWithInfo';
+import { SidePanel } from './SidePanel';
+import { useLanguage } from '../contexts/LanguageContext';
+import { matchesItemName } from '../i18n';
+
+interface BlueprintTrackerProps {
+  itemsMap: ItemsMap;
+  lockedGoals: Map<string, string>;
+  learnedBlueprintIds: Set<string>;
+  onSetBlueprintLearned: (blueprintId: string, learned: boolean) => void;
+}
+
+export function BlueprintTracker({
+  itemsMap,
+  lockedGoals,
+  learnedBlueprintIds,
+  onSetBlueprintLearned,
+}: BlueprintTrackerProps) {
+  const { language, localize } = useLanguage();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const hunts = useMemo(() => getBlueprintsToHunt(lockedGoals), [lockedGoals]);
+
+  const matchingBlueprints = useMemo(() => {
+    const searchLower = searchTerm.trim().toLowerCase();
+    if (searchLower.length < 2) {
+      return [];
+    }
+    return Object.values(itemsMap)
+      .filter(
+        (item) =>
+          isBlueprint(item) &&
+          !learnedBlueprintIds.has(item.id) &&
+          matchesItemName(item.name, searchLower, language)
+      )
+      .slice(0, 20);
+  }, [searchTerm, itemsMap, learnedBlueprintIds, language]);
+
+  const handleMarkLearned = (blueprintId: string) => {
+    onSetBlueprintLearned(blueprintId, true);
+    setSearchTerm('');
+  };
+
+  const getName = (itemId: string) => localize(itemsMap[itemId]?.name) || itemId;
+
+  return (
+    <SidePanel title="Blueprints to Hunt" icon={<ScrollText size={16} />} defaultExpanded={false}>
+      {hunts.length === 0 ? (
+        <div className="side-panel-empty">None of your goals is locked behind a blueprint.</div>
+      ) : (
+        <div className="side-panel-list">
+          {hunts.map((hunt) => {
+            const blueprint = itemsMap[hunt.blueprintId];
+            return (
+              <div key={hunt.blueprintId} className="side-panel-row">
+                <div className="side-panel-row-main">
+                  {blueprint && (
+                    <ItemIconWithInfo
+                      item={blueprint}
+                      itemsMap={itemsMap}
+                      className={`side-panel-icon ${getRarityClass(blueprint.rarity)}`}
+                    />
+                  )}
+                  <span className="side-panel-row-name">{getName(hunt.blueprintId)}</span>
+                  <button
+                    className="filter-action-button blueprint-learned-button"
+                    onClick={() => onSetBlueprintLearned(hunt.blueprintId, true)}
+                    title="Mark this blueprint as learned"
+                  >
+                    Learned
+                  </button>
+                </div>
+                <div className="side-panel-row-detail">
+                  Unlocks {hunt.goalItemIds.map(getName).join(', ')}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="search-box blueprint-search">
+        <input
+          type="text"
+          placeholder="Mark another blueprint as learned..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        {matchingBlueprints.length > 0 && (
+          <div className="autocomplete-dropdown">
+            {matchingBlueprints.map((item) => (
+              <div
+                key={item.id}
+                className="autocomplete-dropdown-item"
+                onClick={() => handleMarkLearned(item.id)}
+              >
+                {item.imageFilename && (
+                  <img
+                    src={item.imageFilename}
+                    alt={localize(item.name)}
+                    className={`autocomplete-dropdown-item-icon ${getRarityClass(item.rarity)}`}
+                  />
+                )}
+                <span className="autocomplete-dropdown-item-name">{localize(item.name)}</span>
+                <div className="autocomplete-dropdown-item-add">+</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {learnedBlueprintIds.size > 0 && (
+        <div className="side-panel-note">
+          <div>Learned ({learnedBlueprintIds.size}):</div>
+          <div className="blueprint-learned-list">
+            {Array.from(learnedBlueprintIds)
+              .sort((a, b) => getName(a).localeCompare(getName(b)))
+              .map((blueprintId) => (
+                <span key={blueprintId} className="blueprint-learned-chip">
+                  {getName(blueprintId).replace(/ Blueprint$/, '')}
+                  <button
+                    onClick={() => onSetBlueprintLearned(blueprintId, false)}
+                    title="Mark as not learned"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+          </div>
+        </div>
+      )}
+    </SidePanel>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMemo, useState } from 'react';
+import { Hammer } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import type { CraftingTree } from '../utils/craftingChain';
+import { buildCraftQueue } from '../utils/buildPlan';
+import type { BuildStep } from '../utils/buildPlan';
+import { getBenchLabel, getMissingStationLevel } from '../utils/workshop';
+import type { WorkshopLevels } from '../utils/workshop';
+import { loadCompletedBuildSteps, saveCompletedBuildSteps } from '../utils/storage';
+import { getRarityClass } from '../utils/dataLoader';
+import { ItemIconWithInfo } from './ItemIconWithInfo';
+import { SidePanel } from './SidePanel';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface BuildPlanProps {
+  itemsMap: ItemsMap;
+  craftingTrees: CraftingTree[];
+  workshopLevels: WorkshopLevels;
+}
+
+interface BenchGroup {
+  bench: string | null;
+  steps: { step: BuildStep; number: number }[];
+}
+
+export function BuildPlan({ itemsMap, craftingTrees, workshopLevels }: BuildPlanProps) {
+  const { localize } = useLanguage();
+  const [completedIds, setCompletedIds] = useState<Set<string>>(() => loadCompletedBuildSteps());
+
+  const steps = useMemo(() => buildCraftQueue(craftingTrees), [craftingTrees]);
+
+  // Group by bench, keeping the overall step numbers so the order across benches stays visible
+  const benchGroups = useMemo(() => {
+    const groups = new Map<string | null, BenchGroup>();
+    steps.forEach((step, index) => {
+      const bench = itemsMap[step.itemId]?.craftBench ?? null;
+      if (!groups.has(bench)) {
+        groups.set(bench, { bench, steps: [] });
+      }
+      groups.get(bench)!.steps.push({ step, number: index + 1 });
+    });
+    return Array.from(groups.values());
+  }, [steps, itemsMap]);
+
+  const handleToggleStep = (itemId: string) => {
+    const newCompleted = new Set(completedIds);
+    if (newCompleted.has(itemId)) {
+      newCompleted.delete(itemId);
+    } else {
+      newCompleted.add(itemId);
+    }
+    setCompletedIds(newCompleted);
+    saveCompletedBuildSteps(newCompleted);
+  };
+
+  const handleClearProgress = () => {
+    const newCompleted = new Set<string>();
+    setCompletedIds(newCompleted);
+    saveCompletedBuildSteps(newCompleted);
+  };
+
+  const getName = (itemId: string) => localize(itemsMap[itemId]?.name) || itemId;
+
+  return (
+    <SidePanel title="Build Plan" icon={<Hammer size={16} />} defaultExpanded={false}>
+      {steps.length === 0 ? (
+        <div className="side-panel-empty">Nothing to craft.</div>
+      ) : (
+        <>
+          {benchGroups.map((group) => (
+            <div key={group.bench ?? 'none'} className="build-plan-bench">
+              {(group.bench || benchGroups.length > 1) && (
+                <div className="build-plan-bench-title">
+                  {group.bench ? getBenchLabel(group.bench) : 'Other'}
+                  {group.bench && workshopLevels[group.bench] !== undefined && (
+                    <span className="build-plan-bench-level">Level {workshopLevels[group.bench]}</span>
+                  )}
+                </div>
+              )}
+              <div className="side-panel-list">
+                {group.steps.map(({ step, number }) => {
+                  const item = itemsMap[step.itemId];
+                  const isDone = completedIds.has(step.itemId);
+                  const missingStation = item ? getMissingStationLevel(item, workshopLevels) : null;
+                  return (
+                    <label key={step.itemId} className={`side-panel-row build-plan-step ${isDone ? 'done' : ''}`}>
+                      <div className="side-panel-row-main">
+                        <input
+                          type="checkbox"
+                          checked={isDone}
+                          onChange={() => handleToggleStep(step.itemId)}
+                        />
+                        <span className="build-plan-step-number">{number}.</span>
+                        <span className="side-panel-row-count">Craft {step.quantity}×</span>
+                        {item && (
+                          <ItemIconWithInfo
+                            item={item}
+                            itemsMap={itemsMap}
+                            className={`side-panel-icon ${getRarityClass(item.rarity)}`}
+                          />
+                        )}
+                        <span className="side-panel-row-name">{getName(step.itemId)}</span>
+                      </div>
+                      <div className="side-panel-row-detail">
+                        For {step.goalItemIds.map(getName).join(', ')}
+                      </div>
+                      {missingStation && (
+                        <div className="side-panel-row-detail build-plan-step-station">
+                          Needs {getBenchLabel(missingStation.bench)} level {missingStation.requiredLevel}
+                        </div>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          {completedIds.size > 0 && (
+            <div className="side-panel-summary">
+              <button className="filter-action-button" onClick={handleClearProgress}>
+                Clear progress
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </SidePanel>
+  );
+}
@@ -0,0 +1,151 @@
+import { useMemo, useState } from 'react';
+import type { ItemsMap } from '../types/item';
+import { getRarityClass } from '../utils/dataLoader';
+import { createCustomGoalId, isCustomGoalId } from '../utils/customGoals';
+import type { CustomGoal } from '../utils/customGoals';
+import { isHideoutUpgradeId } from '../utils/hideout';
+import { isQuestItemId } from '../utils/quests';
+import { useLanguage } from '../contexts/LanguageContext';
+import { matchesItemName } from '../i18n';
+
+interface CustomGoalEditorProps {
+  itemsMap: ItemsMap;
+  customGoal: CustomGoal | null; // null creates a new custom goal
+  onSave: (customGoal: CustomGoal) => void;
+  onCancel: () => void;
+}
+
+export function CustomGoalEditor({ itemsMap, customGoal, onSave, onCancel }: CustomGoalEditorProps) {
+  const { language, t, localize } = useLanguage();
+  const [name, setName] = useState(customGoal?.name ?? '');
+  const [materials, setMaterials] = useState<Record<string, number>>(customGoal?.materials ?? {});
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const matchingItems = useMemo(() => {
+    const searchLower = searchTerm.trim().toLowerCase();
+    if (searchLower.length < 2) {
+      return [];
+    }
+    return Object.values(itemsMap)
+      .filter(
+        (item) =>
+          !isCustomGoalId(item.id) &&
+          !isHideoutUpgradeId(item.id) &&
+          !isQuestItemId(item.id) &&
+          !(item.id in materials) &&
+          matchesItemName(item.name, searchLower, language)
+      )
+      .slice(0, 20);
+  }, [searchTerm, itemsMap, materials, language]);
+
+  const handleAddMaterial = (itemId: string) => {
+    setMaterials({ ...materials, [itemId]: 1 });
+    setSearchTerm('');
+  };
+
+  const handleChangeQuantity = (itemId: string, value: string) => {
+    const quantity = parseInt(value, 10);
+    if (!isNaN(quantity)) {
+      setMaterials({ ...materials, [itemId]: Math.max(1, quantity) });
+    }
+  };
+
+  const handleRemoveMaterial = (itemId: string) => {
+    const newMaterials = { ...materials };
+    delete newMaterials[itemId];
+    setMaterials(newMaterials);
+  };
+
+  const handleSave = () => {
+    onSave({
+      id: customGoal?.id ?? createCustomGoalId(),
+      name: name.trim(),
+      materials,
+    });
+  };
+
+  const canSave = name.trim().length > 0 && Object.keys(materials).length > 0;
+
+  return (
+    <div className="custom-goal-editor">
+      <input
+        type="text"
+        className="custom-goal-editor-name"
+        placeholder={t('customGoal.namePlaceholder')}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+
+      <div className="custom-goal-editor-materials">
+        {Object.entries(materials).map(([itemId, quantity]) => {
+          const item = itemsMap[itemId];
+          return (
+            <div key={itemId} className="custom-goal-editor-material">
+              {item?.imageFilename && (
+                <img
+                  src={item.imageFilename}
+                  alt={localize(item.name)}
+                  className={`autocomplete-dropdown-item-icon ${getRarityClass(item.rarity)}`}
+                />
+              )}
+              <span className="custom-goal-editor-material-name">{localize(item?.name) || itemId}</span>
+              <input
+                type="number"
+                className="goal-items-list-item-quantity"
+                min={1}
+                value={quantity}
+                onChange={(e) => handleChangeQuantity(itemId, e.target.value)}
+              />
+              <button
+                className="goal-items-list-item-remove"
+                onClick={() => handleRemoveMaterial(itemId)}
+                title={t('customGoal.removeMaterial')}
+              >
+                ×
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="search-box custom-goal-editor-search">
+        <input
+          type="text"
+          placeholder={t('customGoal.addMaterialPlaceholder')}
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        {matchingItems.length > 0 && (
+          <div className="autocomplete-dropdown">
+            {matchingItems.map((item) => (
+              <div
+                key={item.id}
+                className="autocomplete-dropdown-item"
+                onClick={() => handleAddMaterial(item.id)}
+              >
+                {item.imageFilename && (
+                  <img
+                    src={item.imageFilename}
+                    alt={localize(item.name)}
+                    className={`autocomplete-dropdown-item-icon ${getRarityClass(item.rarity)}`}
+                  />
+                )}
+                <span className="autocomplete-dropdown-item-name">{localize(item.name)}</span>
+                <div className="autocomplete-dropdown-item-add">+</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="sidebar-section-actions">
+        <button className="sidebar-section-action" onClick={handleSave} disabled={!canSave}>
+          {customGoal ? t('customGoal.save') : t('customGoal.add')}
+        </button>
+        <button className="sidebar-section-action" onClick={onCancel}>
+          {t('customGoal.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
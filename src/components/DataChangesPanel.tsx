@@ -0,0 +1,104 @@
+import { useMemo } from 'react';
+import { History } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import type { DataChangelogEntry } from '../types/changelog';
+import type { MaterialTotals, StashCounts } from '../utils/craftingChain';
+import { getRelevantChanges } from '../utils/changelog';
+import { SidePanel } from './SidePanel';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface DataChangesPanelProps {
+  itemsMap: ItemsMap;
+  entries: DataChangelogEntry[];
+  goalItemIds: string[];
+  materialTotals: MaterialTotals;
+  stashCounts: StashCounts;
+  onDismiss: () => void;
+}
+
+/**
+ * Changes of the item data since your last visit that touch your goals, their materials or your stash
+ */
+export function DataChangesPanel({
+  itemsMap,
+  entries,
+  goalItemIds,
+  materialTotals,
+  stashCounts,
+  onDismiss,
+}: DataChangesPanelProps) {
+  const { localize } = useLanguage();
+  const changes = useMemo(() => {
+    const itemIds = new Set([
+      ...goalItemIds,
+      ...materialTotals.keys(),
+      ...Object.keys(stashCounts).filter((itemId) => stashCounts[itemId] > 0),
+    ]);
+    return getRelevantChanges(entries, itemIds);
+  }, [entries, goalItemIds, materialTotals, stashCounts]);
+
+  const getName = (itemId: string) => localize(itemsMap[itemId]?.name) || itemId;
+
+  const formatQuantities = (quantities: Record<string, number> | null) =>
+    quantities && Object.keys(quantities).length > 0
+      ? Object.entries(quantities)
+          .map(([itemId, quantity]) => `${quantity}× ${getName(itemId)}`)
+          .join(', ')
+      : 'nothing';
+
+  const hasChanges = changes.removed.length + changes.recipeChanges.length + changes.valueChanges.length > 0;
+
+  return (
+    <SidePanel title="Since Your Last Visit" icon={<History size={16} />}>
+      {!hasChanges ? (
+        <div className="side-panel-empty">The item data was updated, but nothing you use changed.</div>
+      ) : (
+        <div className="side-panel-list">
+          {changes.removed.map((item) => (
+            <div key={`removed:${item.id}`} className="side-panel-row">
+              <div className="side-panel-row-main">
+                <span className="side-panel-row-name">{item.name}</span>
+                <span className="data-change-kind removed">removed</span>
+              </div>
+              <div className="side-panel-row-detail">No longer in the game data</div>
+            </div>
+          ))}
+          {changes.recipeChanges.map((change) => (
+            <div key={`${change.property}:${change.itemId}`} className="side-panel-row">
+              <div className="side-panel-row-main">
+                <span className="side-panel-row-name">{getName(change.itemId)}</span>
+                <span className="data-change-kind">{change.property === 'recipe' ? 'recipe' : 'upgrade cost'}</span>
+              </div>
+              <div className="side-panel-row-detail">
+                Was {formatQuantities(change.before)}, now {formatQuantities(change.after)}
+              </div>
+            </div>
+          ))}
+          {changes.valueChanges.map((change) => (
+            <div key={`value:${change.itemId}`} className="side-panel-row">
+              <div className="side-panel-row-main">
+                <span className="side-panel-row-name">{getName(change.itemId)}</span>
+                <span className="data-change-kind">value</span>
+              </div>
+              <div className="side-panel-row-detail">
+                {change.before ?? '–'} → {change.after ?? '–'}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(changes.addedCount > 0 || changes.otherCount > 0) && (
+        <div className="side-panel-note">
+          Also {changes.addedCount} new item(s) and {changes.otherCount} change(s) to items you don't use.
+        </div>
+      )}
+
+      <div className="side-panel-summary">
+        <button className="filter-action-button" onClick={onDismiss}>
+          Got it
+        </button>
+      </div>
+    </SidePanel>
+  );
+}
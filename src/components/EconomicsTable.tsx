@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import { Coins } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import { getItemEconomics } from '../utils/economics';
+import { useEconomics } from '../contexts/EconomicsContext';
+import { SidePanel } from './SidePanel';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface EconomicsTableProps {
+  itemsMap: ItemsMap;
+  onChangeGoalPremium: (percent: number) => void;
+}
+
+// Keeps the table readable, items are sorted by how much breaking down pays off
+const MAX_ROWS = 50;
+
+export function EconomicsTable({ itemsMap, onChangeGoalPremium }: EconomicsTableProps) {
+  const { localize } = useLanguage();
+  const { neededMaterialIds, goalPremiumPercent } = useEconomics();
+  const [onlyNeeded, setOnlyNeeded] = useState(true);
+
+  const rows = useMemo(
+    () =>
+      Object.values(itemsMap)
+        .filter((item) => item.recyclesInto || item.salvagesInto)
+        .map((item) => ({
+          item,
+          economics: getItemEconomics(item, itemsMap, neededMaterialIds, goalPremiumPercent),
+        }))
+        .filter(
+          ({ economics }) =>
+            !onlyNeeded ||
+            (economics.recycle?.neededOutputIds.length ?? 0) > 0 ||
+            (economics.salvage?.neededOutputIds.length ?? 0) > 0
+        )
+        .sort((a, b) => b.economics.advantage - a.economics.advantage)
+        .slice(0, MAX_ROWS),
+    [itemsMap, neededMaterialIds, goalPremiumPercent, onlyNeeded]
+  );
+
+  return (
+    <SidePanel title="Sell or Break Down" icon={<Coins size={16} />} defaultExpanded={false}>
+      <div className="side-panel-options loadout-settings">
+        <label title="Extra value given to outputs your goals still need">
+          Goal premium (%)
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={goalPremiumPercent}
+            onChange={(e) => {
+              const percent = parseInt(e.target.value, 10);
+              onChangeGoalPremium(isNaN(percent) ? 0 : Math.max(0, percent));
+            }}
+          />
+        </label>
+        <button
+          className={`filter-button ${onlyNeeded ? 'enabled' : 'disabled'}`}
+          onClick={() => setOnlyNeeded(!onlyNeeded)}
+        >
+          Needed outputs only
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="side-panel-empty">No items break down into materials you need.</div>
+      ) : (
+        <table className="economics-table">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Sell</th>
+              <th>Recycle</th>
+              <th>Salvage</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ item, economics }) => (
+              <tr key={item.id} className={economics.advantage > 0 ? 'break-down' : 'sell'}>
+                <td>{localize(item.name)}</td>
+                <td className={economics.bestOption === 'sell' ? 'best' : ''}>{economics.sellValue}</td>
+                <td className={economics.bestOption === 'recycle' ? 'best' : ''}>
+                  {economics.recycle?.premiumValue ?? '–'}
+                </td>
+                <td className={economics.bestOption === 'salvage' ? 'best' : ''}>
+                  {economics.salvage?.premiumValue ?? '–'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </SidePanel>
+  );
+}
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { PackageSearch } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import type { MaterialTotals } from '../utils/craftingChain';
+import { getLootVerdict } from '../utils/lootVerdict';
+import { isCustomGoalId } from '../utils/customGoals';
+import { isHideoutUpgradeId } from '../utils/hideout';
+import { isQuestItemId } from '../utils/quests';
+import type { LootVerdictKind } from '../utils/lootVerdict';
+import { getRarityClass } from '../utils/dataLoader';
+import { ItemIconWithInfo } from './ItemIconWithInfo';
+import { SidePanel } from './SidePanel';
+import { useLanguage } from '../contexts/LanguageContext';
+import { matchesItemName } from '../i18n';
+
+interface FoundInRaidCheckProps {
+  itemsMap: ItemsMap;
+  goalItemIds: string[];
+  materialTotals: MaterialTotals;
+  missingQuantities: Map<string, number>; // Every ingredient still missing, intermediates included
+  outstandingMaterials: Map<string, number>; // Base materials still missing
+}
+
+const VERDICT_LABELS: Record<LootVerdictKind, string> = {
+  keep: 'Keep it',
+  salvage: 'Salvage it',
+  recycle: 'Recycle it',
+  sell: 'Sell it',
+};
+
+export function FoundInRaidCheck({ itemsMap, goalItemIds, materialTotals, missingQuantities, outstandingMaterials }: FoundInRaidCheckProps) {
+  const { language, localize } = useLanguage();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+
+  const matchingItems = useMemo(() => {
+    const searchLower = searchTerm.trim().toLowerCase();
+    if (searchLower.length < 2) {
+      return [];
+    }
+    return Object.values(itemsMap)
+      .filter(
+        (item) =>
+          !isCustomGoalId(item.id) &&
+          !isHideoutUpgradeId(item.id) &&
+          !isQuestItemId(item.id) &&
+          matchesItemName(item.name, searchLower, language)
+      )
+      .slice(0, 20);
+  }, [searchTerm, itemsMap, language]);
+
+  const verdict = selectedItemId
+    ? getLootVerdict(selectedItemId, itemsMap, goalItemIds, materialTotals, missingQuantities, outstandingMaterials)
+    : null;
+  const selectedItem = selectedItemId ? itemsMap[selectedItemId] : undefined;
+
+  const handleSelectItem = (itemId: string) => {
+    setSelectedItemId(itemId);
+    setSearchTerm('');
+  };
+
+  return (
+    <SidePanel title="Found in Raid" icon={<PackageSearch size={16} />}>
+      <div className="search-box found-in-raid-search">
+        <input
+          type="text"
+          placeholder="What did you pick up?"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        {matchingItems.length > 0 && (
+          <div className="autocomplete-dropdown">
+            {matchingItems.map((item) => (
+              <div
+                key={item.id}
+                className="autocomplete-dropdown-item"
+                onClick={() => handleSelectItem(item.id)}
+              >
+                {item.imageFilename && (
+                  <img
+                    src={item.imageFilename}
+                    alt={localize(item.name)}
+                    className={`autocomplete-dropdown-item-icon ${getRarityClass(item.rarity)}`}
+                  />
+                )}
+                <span className="autocomplete-dropdown-item-name">{localize(item.name)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedItem && verdict && (
+        <div className={`found-in-raid-verdict verdict-${verdict.kind}`}>
+          <div className="side-panel-row-main">
+            <ItemIconWithInfo
+              item={selectedItem}
+              itemsMap={itemsMap}
+              className={`side-panel-icon ${getRarityClass(selectedItem.rarity)}`}
+            />
+            <span className="side-panel-row-name">{localize(selectedItem.name)}</span>
+            <span className="found-in-raid-verdict-label">{VERDICT_LABELS[verdict.kind]}</span>
+          </div>
+          <ul className="found-in-raid-reasons">
+            {verdict.reasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </SidePanel>
+  );
+}
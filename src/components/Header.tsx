@@ -1,10 +1,83 @@
-export function Header() {
+import { HardDriveDownload, Languages, Redo2, Undo2 } from 'lucide-react';
+import { ProfileSwitcher } from './ProfileSwitcher';
+import { ShareButton } from './ShareButton';
+import type { Profile } from '../utils/profiles';
+import { LANGUAGES, isLanguage } from '../i18n';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { Language } from '../i18n';
+
+interface HeaderProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (profileId: string) => void;
+  onCreateProfile: (name: string) => void;
+  onRenameProfile: (profileId: string, name: string) => void;
+  onCloneProfile: (profileId: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+  onOpenBackup: () => void;
+  onCreateShareLink: () => Promise<string>;
+  undoLabel: string | null; // Next step to undo, null if there is none
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onChangeLanguage: (language: Language) => void;
+}
+
+export function Header({
+  onOpenBackup,
+  onCreateShareLink,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onChangeLanguage,
+  ...profileProps
+}: HeaderProps) {
+  const { language, t } = useLanguage();
+
   return (
     <div className="app-header">
       <h1>
         <span className="brand-name">ARC Raiders</span>
         <span className="app-name">Looting Helper</span>
       </h1>
+      <div className="app-header-actions">
+        <button
+          className="profile-switcher-button"
+          onClick={onUndo}
+          disabled={!undoLabel}
+          title={undoLabel ? t('header.undo', { label: undoLabel }) : t('header.nothingToUndo')}
+        >
+          <Undo2 size={14} />
+        </button>
+        <button
+          className="profile-switcher-button"
+          onClick={onRedo}
+          disabled={!redoLabel}
+          title={redoLabel ? t('header.redo', { label: redoLabel }) : t('header.nothingToRedo')}
+        >
+          <Redo2 size={14} />
+        </button>
+        <ProfileSwitcher {...profileProps} />
+        <button className="profile-switcher-button" onClick={onOpenBackup} title={t('header.backup')}>
+          <HardDriveDownload size={14} />
+        </button>
+        <ShareButton onCreateShareLink={onCreateShareLink} />
+        <label className="language-switcher" title={t('language.label')}>
+          <Languages size={14} className="language-switcher-icon" />
+          <select
+            className="language-switcher-select"
+            value={language}
+            onChange={(e) => isLanguage(e.target.value) && onChangeLanguage(e.target.value)}
+          >
+            {Object.entries(LANGUAGES).map(([code, label]) => (
+              <option key={code} value={code}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
     </div>
   );
 }
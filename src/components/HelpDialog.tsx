@@ -1,10 +1,13 @@
 import { useEffect } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface HelpDialogProps {
   onClose: () => void;
 }
 
 export function HelpDialog({ onClose }: HelpDialogProps) {
+  const { t } = useLanguage();
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -22,42 +25,42 @@ export function HelpDialog({ onClose }: HelpDialogProps) {
     <div className="help-dialog-overlay" onClick={onClose}>
       <div className="help-dialog" onClick={(e) => e.stopPropagation()}>
         <div className="help-dialog-header">
-          <h2>How to Use</h2>
+          <h2>{t('help.title')}</h2>
           <button className="help-dialog-close" onClick={onClose}>&times;</button>
         </div>
         <div className="help-dialog-content">
           <section>
-            <h3>1. Set Your Crafting Goals</h3>
-            <p>Use the search bar to find and add items you want to regularly craft. This builds your master list of requirements.</p>
+            <h3>{t('help.goalsTitle')}</h3>
+            <p>{t('help.goalsText')}</p>
           </section>
           
           <section>
-            <h3>2. Identify Loot Priorities</h3>
-            <p>The app automatically generates a list of all base resources and materials you need to loot to achieve these crafting goals.</p>
+            <h3>{t('help.prioritiesTitle')}</h3>
+            <p>{t('help.prioritiesText')}</p>
           </section>
           
           <section>
-            <h3>3. Manage Your Stash</h3>
-            <p>You can mark items as "I have enough in my stash" (e.g., if you already have plenty of batteries or wires). This dynamically reduces the "what to loot / keep" list, showing only what you still actually need.</p>
+            <h3>{t('help.stashTitle')}</h3>
+            <p>{t('help.stashText')}</p>
           </section>
           
           <section>
-            <h3>4. Optimize Your Raids</h3>
-            <p>Use this list during or after a raid to quickly understand what items to keep or salvage, versus what to leave behind or sell.</p>
+            <h3>{t('help.raidsTitle')}</h3>
+            <p>{t('help.raidsText')}</p>
           </section>
 
           <div className="help-dialog-example">
-            <h3>Example Workflow</h3>
-            <p>If you are aiming to craft a specific gadget, add it as a goal. The visualizer will show you the entire tree—from the final item down to the basic materials like "Circuit Boards" or "Chemicals". If you find a "Topside Item" during a raid, you can quickly check which materials it salvages into, helping you decide if it's worth the inventory space.</p>
+            <h3>{t('help.exampleTitle')}</h3>
+            <p>{t('help.exampleText')}</p>
           </div>
 
           <div className="help-dialog-note">
-            <p><strong>Note:</strong> This tool specifically focuses on items needed for <strong>crafting</strong>. Remember to combine these requirements with what you might need for expeditions or projects.</p>
+            <p><strong>{t('help.noteLabel')}</strong> {t('help.noteText')}</p>
           </div>
 
           <section>
-            <h3>Learning the Game</h3>
-            <p>A key benefit of this tool is learning the relationship between "topside items" and the materials they provide. As you use the app, you'll develop a "feel" for what's valuable. The ultimate goal is that you won't need this tool anymore after plenty of hours, because you'll have learned exactly what to keep!</p>
+            <h3>{t('help.learningTitle')}</h3>
+            <p>{t('help.learningText')}</p>
           </section>
         </div>
       </div>
@@ -1,44 +1,10 @@
-import type { Item, ItemsMap } from '../types/item';
+import type { ItemsMap } from '../types/item';
 import type { ReverseMap } from '../utils/craftingChain';
+import { isSafeSalvage } from '../utils/craftingChain';
 import { ItemIconWithInfo } from './ItemIconWithInfo';
 import { getRarityClass } from '../utils/dataLoader';
-import { Recycle, Wrench } from 'lucide-react';
-
-/**
- * Check if salvaging an item is safe (doesn't lose materials compared to recycling)
- * Returns true if:
- * - Item has only recyclesInto (database inconsistency - treat as salvagesInto)
- * - Item has salvagesInto but no recyclesInto
- * - Item has both, but salvage yields >= recycle for all materials
- */
-function isSafeSalvage(item: Item): boolean {
-  const { salvagesInto, recyclesInto } = item;
-  
-  // If only recyclesInto exists (no salvagesInto), treat as safe salvage
-  if (recyclesInto && !salvagesInto) {
-    return true;
-  }
-  
-  // If no salvage data at all, not applicable
-  if (!salvagesInto) {
-    return false;
-  }
-  
-  // If no recycle data, salvaging is safe
-  if (!recyclesInto) {
-    return true;
-  }
-  
-  // Check if all recycle materials are present in salvage with >= quantity
-  for (const [materialId, recycleQty] of Object.entries(recyclesInto)) {
-    const salvageQty = salvagesInto[materialId] || 0;
-    if (salvageQty < recycleQty) {
-      return false;
-    }
-  }
-  
-  return true;
-}
+import { Flag, Recycle, Wrench } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface ItemHierarchyProps {
   itemId: string;
@@ -61,6 +27,7 @@ export function ItemHierarchy({
   currentDepth = 0,
   visitedPath = new Set(),
 }: ItemHierarchyProps) {
+  const { localize } = useLanguage();
   const item = itemsMap[itemId];
   const usages = reverseMap.get(itemId) || [];
 
@@ -107,6 +74,10 @@ export function ItemHierarchy({
               quantityToShow = item.salvagesInto?.[usage.parentItemId] || item.recyclesInto?.[usage.parentItemId] || 1;
               relationshipText = safeSalvage ? 'salvages into (safe)' : 'salvages into';
               relationshipIcon = <Wrench size={14} strokeWidth={2} className="hierarchy-relationship-icon" />;
+            } else if (usage.relationship === 'quest') {
+              quantityToShow = parentItem.recipe?.[itemId] || 1;
+              relationshipText = 'handed in for quest';
+              relationshipIcon = <Flag size={14} strokeWidth={2} className="hierarchy-relationship-icon quest" />;
             } else {
               // For recipes: show how many of current material needed to build ONE parent item
               quantityToShow = parentItem.recipe?.[itemId] || 1;
@@ -120,7 +91,7 @@ export function ItemHierarchy({
               <div key={`${usage.parentItemId}-${index}`} className="hierarchy-branch">
                 <div className="hierarchy-item">
                   <span className="hierarchy-relationship">
-                    {usage.relationship === 'recipe' && quantityToShow > 1 && (
+                    {(usage.relationship === 'recipe' || usage.relationship === 'quest') && quantityToShow > 1 && (
                       <span className="hierarchy-item-quantity">×{quantityToShow}</span>
                     )}
                     {relationshipIcon}
@@ -137,7 +108,7 @@ export function ItemHierarchy({
                         className={`hierarchy-item-icon ${getRarityClass(parentItem.rarity)}`}
                       />
                     )}
-                    <span className="hierarchy-item-name">{parentItem.name.en}</span>
+                    <span className="hierarchy-item-name">{localize(parentItem.name)}</span>
                     {(usage.relationship === 'salvage' || usage.relationship === 'recycle') && quantityToShow > 0 && (
                       <span className="hierarchy-item-quantity">×{quantityToShow}</span>
                     )}
@@ -2,6 +2,7 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import type { Item, ItemsMap } from '../types/item';
 import { ItemInfoBox } from './ItemInfoBox';
 import { useHoverIntent } from '../hooks/useHoverIntent';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface ItemIconWithInfoProps {
   item: Item;
@@ -11,6 +12,7 @@ interface ItemIconWithInfoProps {
 }
 
 export function ItemIconWithInfo({ item, itemsMap, className = '', alt }: ItemIconWithInfoProps) {
+  const { localize } = useLanguage();
   const [infoBoxPosition, setInfoBoxPosition] = useState({ x: 0, y: 0 });
   const { ref, isHovered } = useHoverIntent<HTMLImageElement>({ delayShow: 500, delayHide: 100 });
   const imageRef = useRef<HTMLImageElement>(null);
@@ -72,7 +74,7 @@ export function ItemIconWithInfo({ item, itemsMap, className = '', alt }: ItemIc
       <img
         ref={setRefs}
         src={item.imageFilename}
-        alt={alt || item.name.en}
+        alt={alt || localize(item.name)}
         className={className}
       />
       <ItemInfoBox
@@ -1,6 +1,9 @@
 import type { Item, ItemsMap } from '../types/item';
 import { getRarityClass } from '../utils/dataLoader';
 import { PackageSearch, Coins, Weight, Wrench, Recycle } from 'lucide-react';
+import { getItemEconomics } from '../utils/economics';
+import { useEconomics } from '../contexts/EconomicsContext';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface ItemInfoBoxProps {
   item: Item;
@@ -10,11 +13,16 @@ interface ItemInfoBoxProps {
 }
 
 export function ItemInfoBox({ item, itemsMap, position, visible }: ItemInfoBoxProps) {
+  const { localize } = useLanguage();
+  const { neededMaterialIds, goalPremiumPercent } = useEconomics();
+
   if (!visible) return null;
 
   const hasRecipe = item.recipe && Object.keys(item.recipe).length > 0;
   const hasRecycles = item.recyclesInto && Object.keys(item.recyclesInto).length > 0;
   const hasSalvages = item.salvagesInto && Object.keys(item.salvagesInto).length > 0;
+  const economics = getItemEconomics(item, itemsMap, neededMaterialIds, goalPremiumPercent);
+  const bestBreakdown = Math.max(economics.recycle?.premiumValue ?? 0, economics.salvage?.premiumValue ?? 0);
 
   return (
     <div
@@ -28,12 +36,12 @@ export function ItemInfoBox({ item, itemsMap, position, visible }: ItemInfoBoxPr
         {item.imageFilename && (
           <img
             src={item.imageFilename}
-            alt={item.name.en}
+            alt={localize(item.name)}
             className={`item-info-icon ${getRarityClass(item.rarity)}`}
           />
         )}
         <div className="item-info-title">
-          <h3>{item.name.en}</h3>
+          <h3>{localize(item.name)}</h3>
           <div className="item-info-badges">
             <span className={`badge badge-type ${item.type.toLowerCase().replace(/\s+/g, '-')}`}>
               {item.type}
@@ -45,9 +53,9 @@ export function ItemInfoBox({ item, itemsMap, position, visible }: ItemInfoBoxPr
         </div>
       </div>
 
-      {item.description?.en && (
+      {item.description && (
         <div className="item-info-description">
-          {item.description.en}
+          {localize(item.description)}
         </div>
       )}
 
@@ -87,11 +95,11 @@ export function ItemInfoBox({ item, itemsMap, position, visible }: ItemInfoBoxPr
                   {material.imageFilename && (
                     <img
                       src={material.imageFilename}
-                      alt={material.name.en}
+                      alt={localize(material.name)}
                       className={`material-icon ${getRarityClass(material.rarity)}`}
                     />
                   )}
-                  <span className="material-name">{material.name.en}</span>
+                  <span className="material-name">{localize(material.name)}</span>
                   <span className="material-quantity">×{quantity}</span>
                 </div>
               );
@@ -115,11 +123,11 @@ export function ItemInfoBox({ item, itemsMap, position, visible }: ItemInfoBoxPr
                   {material.imageFilename && (
                     <img
                       src={material.imageFilename}
-                      alt={material.name.en}
+                      alt={localize(material.name)}
                       className={`material-icon ${getRarityClass(material.rarity)}`}
                     />
                   )}
-                  <span className="material-name">{material.name.en}</span>
+                  <span className="material-name">{localize(material.name)}</span>
                   <span className="material-quantity">×{quantity}</span>
                 </div>
               );
@@ -143,11 +151,11 @@ export function ItemInfoBox({ item, itemsMap, position, visible }: ItemInfoBoxPr
                   {material.imageFilename && (
                     <img
                       src={material.imageFilename}
-                      alt={material.name.en}
+                      alt={localize(material.name)}
                       className={`material-icon ${getRarityClass(material.rarity)}`}
                     />
                   )}
-                  <span className="material-name">{material.name.en}</span>
+                  <span className="material-name">{localize(material.name)}</span>
                   <span className="material-quantity">×{quantity}</span>
                 </div>
               );
@@ -155,6 +163,46 @@ export function ItemInfoBox({ item, itemsMap, position, visible }: ItemInfoBoxPr
           </div>
         </div>
       )}
+
+      {(economics.recycle || economics.salvage) && (
+        <div className="item-info-section">
+          <h4>
+            <Coins size={16} />
+            Sell or Break Down
+          </h4>
+          <div className="item-info-economics">
+            <div className="item-info-economics-row">
+              <span>Sell</span>
+              <span>{economics.sellValue} Coins</span>
+            </div>
+            {economics.recycle && (
+              <div className="item-info-economics-row">
+                <span>Recycle outputs</span>
+                <span>
+                  {economics.recycle.value} Coins
+                  {economics.recycle.premiumValue !== economics.recycle.value &&
+                    ` (${economics.recycle.premiumValue} with goal premium)`}
+                </span>
+              </div>
+            )}
+            {economics.salvage && (
+              <div className="item-info-economics-row">
+                <span>Salvage outputs</span>
+                <span>
+                  {economics.salvage.value} Coins
+                  {economics.salvage.premiumValue !== economics.salvage.value &&
+                    ` (${economics.salvage.premiumValue} with goal premium)`}
+                </span>
+              </div>
+            )}
+          </div>
+          <div className={`item-info-economics-verdict ${economics.advantage > 0 ? 'break-down' : 'sell'}`}>
+            {economics.advantage > 0
+              ? `Breaking it down is worth ${economics.advantage} Coins more than selling.`
+              : `Selling is worth ${economics.sellValue - bestBreakdown} Coins more than breaking it down.`}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { Handle, Position, useReactFlow } from 'reactflow';
 import type { NodeProps } from 'reactflow';
 import type { Item } from '../types/item';
 import { getRarityClass } from '../utils/dataLoader';
+import { useLanguage } from '../contexts/LanguageContext';
 
 export interface ItemNodeData {
   item: Item;
@@ -13,6 +14,7 @@ export interface ItemNodeData {
 }
 
 export const ItemNode = memo(({ data, id }: NodeProps<ItemNodeData>) => {
+  const { localize } = useLanguage();
   const { item, quantity, isGoal, isHighlighted, salvageMethod } = data;
   const rarityClass = getRarityClass(item.rarity);
   const reactFlowInstance = useReactFlow();
@@ -111,7 +113,7 @@ export const ItemNode = memo(({ data, id }: NodeProps<ItemNodeData>) => {
         {item.imageFilename && (
           <img
             src={item.imageFilename}
-            alt={item.name.en}
+            alt={localize(item.name)}
             className="item-node-icon"
           />
         )}
@@ -120,7 +122,7 @@ export const ItemNode = memo(({ data, id }: NodeProps<ItemNodeData>) => {
         )}
       </div>
 
-      <div className="item-node-name">{item.name.en}</div>
+      <div className="item-node-name">{localize(item.name)}</div>
       
       <Handle type="source" position={Position.Right} />
     </div>
@@ -0,0 +1,104 @@
+import { useMemo, useState } from 'react';
+import { Backpack } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import type { CraftingTree, MaterialTotals } from '../utils/craftingChain';
+import { planLoadout } from '../utils/loadoutPlanner';
+import type { LoadoutSettings } from '../utils/loadoutPlanner';
+import { loadLoadoutSettings, saveLoadoutSettings } from '../utils/storage';
+import { getRarityClass } from '../utils/dataLoader';
+import { ItemIconWithInfo } from './ItemIconWithInfo';
+import { SidePanel } from './SidePanel';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface LoadoutPlannerProps {
+  itemsMap: ItemsMap;
+  goalItemIds: string[];
+  materialTotals: MaterialTotals;
+  craftingTrees: CraftingTree[];
+}
+
+export function LoadoutPlanner({ itemsMap, goalItemIds, materialTotals, craftingTrees }: LoadoutPlannerProps) {
+  const { localize } = useLanguage();
+  const [settings, setSettings] = useState<LoadoutSettings>(() => loadLoadoutSettings());
+
+  const loadout = useMemo(
+    () => planLoadout(itemsMap, goalItemIds, materialTotals, craftingTrees, settings),
+    [itemsMap, goalItemIds, materialTotals, craftingTrees, settings]
+  );
+
+  const handleChangeSetting = (key: keyof LoadoutSettings, value: string) => {
+    const parsed = parseFloat(value);
+    const newSettings = { ...settings, [key]: isNaN(parsed) ? 0 : Math.max(0, parsed) };
+    setSettings(newSettings);
+    saveLoadoutSettings(newSettings);
+  };
+
+  const getName = (itemId: string) => localize(itemsMap[itemId]?.name) || itemId;
+
+  return (
+    <SidePanel title="Backpack Loadout" icon={<Backpack size={16} />} defaultExpanded={false}>
+      <div className="side-panel-options loadout-settings">
+        <label>
+          Slots
+          <input
+            type="number"
+            min={0}
+            value={settings.slots}
+            onChange={(e) => handleChangeSetting('slots', e.target.value)}
+          />
+        </label>
+        <label>
+          Weight limit (kg)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={settings.weightLimit}
+            onChange={(e) => handleChangeSetting('weightLimit', e.target.value)}
+          />
+        </label>
+      </div>
+
+      {loadout.picks.length === 0 ? (
+        <div className="side-panel-empty">Nothing you still need fits into this backpack.</div>
+      ) : (
+        <div className="side-panel-list">
+          {loadout.picks.map((pick) => {
+            const item = itemsMap[pick.itemId];
+            return (
+              <div key={pick.itemId} className="side-panel-row">
+                <div className="side-panel-row-main">
+                  <span className="side-panel-row-count">{pick.quantity}×</span>
+                  {item && (
+                    <ItemIconWithInfo
+                      item={item}
+                      itemsMap={itemsMap}
+                      className={`side-panel-icon ${getRarityClass(item.rarity)}`}
+                    />
+                  )}
+                  <span className="side-panel-row-name">{getName(pick.itemId)}</span>
+                </div>
+                <div className="side-panel-row-detail">
+                  {pick.slots} {pick.slots === 1 ? 'slot' : 'slots'} · {pick.weightKg.toFixed(1)} kg
+                  {pick.source !== 'direct' && ` · ${pick.source} for `}
+                  {pick.source !== 'direct' &&
+                    Object.entries(pick.covers)
+                      .map(([materialId, qty]) => `${getName(materialId)} ×${qty}`)
+                      .join(', ')}
+                </div>
+                <div className="side-panel-row-detail">
+                  Moves forward: {pick.goalItemIds.map(getName).join(', ')}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="side-panel-summary">
+        Slots: {loadout.usedSlots}/{settings.slots} · Weight: {loadout.totalWeight.toFixed(1)}/
+        {settings.weightLimit} kg
+      </div>
+    </SidePanel>
+  );
+}
@@ -0,0 +1,48 @@
+import type { ItemsMap } from '../types/item';
+import type { GoalPreset } from '../types/preset';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface PresetLibraryProps {
+  itemsMap: ItemsMap;
+  presets: GoalPreset[];
+  onAddPreset: (preset: GoalPreset) => void;
+}
+
+export function PresetLibrary({ itemsMap, presets, onAddPreset }: PresetLibraryProps) {
+  const { t, localize } = useLanguage();
+  if (presets.length === 0) {
+    return null;
+  }
+
+  const getName = (itemId: string) => localize(itemsMap[itemId]?.name) || itemId;
+
+  return (
+    <div className="sidebar-section">
+      <div className="sidebar-section-header">
+        <div className="sidebar-section-title">{t('presets.title')}</div>
+      </div>
+      <div className="preset-list">
+        {presets.map((preset) => (
+          <div key={preset.id} className="preset-list-item">
+            <div className="preset-list-item-info">
+              <span className="preset-list-item-name">{preset.name}</span>
+              <span
+                className="preset-list-item-description"
+                title={preset.goals.map((entry) => `${entry.quantity ?? 1}× ${getName(entry.itemId)}`).join('\n')}
+              >
+                {preset.description}
+              </span>
+            </div>
+            <button
+              className="sidebar-section-action"
+              onClick={() => onAddPreset(preset)}
+              title={t('presets.addTitle')}
+            >
+              {t('presets.add')}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Copy, Pencil, Plus, Trash2, User } from 'lucide-react';
+import type { Profile } from '../utils/profiles';
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (profileId: string) => void;
+  onCreateProfile: (name: string) => void;
+  onRenameProfile: (profileId: string, name: string) => void;
+  onCloneProfile: (profileId: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+}
+
+type EditMode = 'create' | 'rename' | null;
+
+export function ProfileSwitcher({
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onCreateProfile,
+  onRenameProfile,
+  onCloneProfile,
+  onDeleteProfile,
+}: ProfileSwitcherProps) {
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [nameValue, setNameValue] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+
+  const handleStartEdit = (mode: EditMode) => {
+    setEditMode(mode);
+    setNameValue(mode === 'rename' ? activeProfile?.name ?? '' : '');
+    setConfirmDelete(false);
+  };
+
+  const handleFinishEdit = () => {
+    const name = nameValue.trim();
+    if (name) {
+      if (editMode === 'create') {
+        onCreateProfile(name);
+      } else if (editMode === 'rename') {
+        onRenameProfile(activeProfileId, name);
+      }
+    }
+    setEditMode(null);
+  };
+
+  const handleDelete = () => {
+    // First click asks for confirmation
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    onDeleteProfile(activeProfileId);
+    setConfirmDelete(false);
+  };
+
+  return (
+    <div className="profile-switcher">
+      <User size={16} className="profile-switcher-icon" />
+      {editMode ? (
+        <input
+          type="text"
+          className="profile-switcher-input"
+          placeholder={editMode === 'create' ? 'New profile name' : 'Profile name'}
+          value={nameValue}
+          autoFocus
+          onChange={(e) => setNameValue(e.target.value)}
+          onBlur={handleFinishEdit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleFinishEdit();
+            } else if (e.key === 'Escape') {
+              setEditMode(null);
+            }
+          }}
+        />
+      ) : (
+        <select
+          className="profile-switcher-select"
+          value={activeProfileId}
+          onChange={(e) => {
+            setConfirmDelete(false);
+            onSwitchProfile(e.target.value);
+          }}
+          title="Switch profile"
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <button className="profile-switcher-button" onClick={() => handleStartEdit('create')} title="New empty profile">
+        <Plus size={14} />
+      </button>
+      <button className="profile-switcher-button" onClick={() => handleStartEdit('rename')} title="Rename profile">
+        <Pencil size={14} />
+      </button>
+      <button
+        className="profile-switcher-button"
+        onClick={() => onCloneProfile(activeProfileId)}
+        title="Copy this profile"
+      >
+        <Copy size={14} />
+      </button>
+      <button
+        className={`profile-switcher-button ${confirmDelete ? 'confirm' : ''}`}
+        onClick={handleDelete}
+        onBlur={() => setConfirmDelete(false)}
+        disabled={profiles.length <= 1}
+        title={confirmDelete ? 'Click again to delete this profile and all its data' : 'Delete profile'}
+      >
+        <Trash2 size={14} />
+        {confirmDelete && <span>Delete?</span>}
+      </button>
+    </div>
+  );
+}
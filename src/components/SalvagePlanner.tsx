@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import { Recycle, Wrench } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import { planSalvage } from '../utils/salvagePlanner';
+import type { SalvageObjective } from '../utils/salvagePlanner';
+import { ItemIconWithInfo } from './ItemIconWithInfo';
+import { SidePanel } from './SidePanel';
+import { getRarityClass } from '../utils/dataLoader';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface SalvagePlannerProps {
+  itemsMap: ItemsMap;
+  goalItemIds: string[];
+  outstandingMaterials: Map<string, number>;
+}
+
+export function SalvagePlanner({ itemsMap, goalItemIds, outstandingMaterials }: SalvagePlannerProps) {
+  const { localize } = useLanguage();
+  const [objective, setObjective] = useState<SalvageObjective>('waste');
+
+  const plan = useMemo(
+    () => planSalvage(outstandingMaterials, itemsMap, goalItemIds, objective),
+    [outstandingMaterials, itemsMap, goalItemIds, objective]
+  );
+
+  const getName = (itemId: string) => localize(itemsMap[itemId]?.name) || itemId;
+
+  return (
+    <SidePanel title="Salvage Plan" icon={<Recycle size={16} />}>
+      <div className="side-panel-options">
+        <button
+          className={`filter-button ${objective === 'waste' ? 'enabled' : 'disabled'}`}
+          onClick={() => setObjective('waste')}
+          title="Prefer items whose outputs are all needed"
+        >
+          Least waste
+        </button>
+        <button
+          className={`filter-button ${objective === 'value' ? 'enabled' : 'disabled'}`}
+          onClick={() => setObjective('value')}
+          title="Prefer items that are worth little when sold"
+        >
+          Keep sell value
+        </button>
+      </div>
+
+      {plan.steps.length === 0 ? (
+        <div className="side-panel-empty">No outstanding materials can be salvaged or recycled.</div>
+      ) : (
+        <>
+          <div className="side-panel-list">
+            {plan.steps.map((step) => {
+              const item = itemsMap[step.itemId];
+              return (
+                <div key={`${step.itemId}-${step.method}`} className="side-panel-row">
+                  <div className="side-panel-row-main">
+                    {step.method === 'salvage' ? <Wrench size={14} /> : <Recycle size={14} />}
+                    <span className="side-panel-row-count">
+                      {step.method === 'salvage' ? 'Salvage' : 'Recycle'} {step.count}×
+                    </span>
+                    {item && (
+                      <ItemIconWithInfo
+                        item={item}
+                        itemsMap={itemsMap}
+                        className={`side-panel-icon ${getRarityClass(item.rarity)}`}
+                      />
+                    )}
+                    <span className="side-panel-row-name">{getName(step.itemId)}</span>
+                  </div>
+                  <div className="side-panel-row-detail">
+                    {Object.entries(step.covers)
+                      .map(([materialId, qty]) => `${getName(materialId)} ×${qty}`)
+                      .join(', ')}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="side-panel-summary">
+            Wasted outputs: {plan.wastedYield} · Sell value lost: {plan.sellValueLost} Coins
+          </div>
+        </>
+      )}
+
+      {plan.uncovered.size > 0 && (
+        <div className="side-panel-note">
+          Loot directly:{' '}
+          {Array.from(plan.uncovered.entries())
+            .map(([materialId, qty]) => `${getName(materialId)} ×${qty}`)
+            .join(', ')}
+        </div>
+      )}
+    </SidePanel>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Share2 } from 'lucide-react';
+
+interface ShareButtonProps {
+  onCreateShareLink: () => Promise<string>;
+}
+
+/**
+ * Creates a link to the current plan and copies it to the clipboard.
+ * The link is also shown, in case copying is not allowed.
+ */
+export function ShareButton({ onCreateShareLink }: ShareButtonProps) {
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleShare = () => {
+    if (shareUrl) {
+      setShareUrl(null);
+      return;
+    }
+    onCreateShareLink()
+      .then((url) => {
+        setShareUrl(url);
+        return navigator.clipboard
+          .writeText(url)
+          .then(() => setStatus('Link copied to the clipboard.'))
+          .catch(() => setStatus('Copy the link below.'));
+      })
+      .catch((err) => {
+        console.error('Failed to create share link:', err);
+        setShareUrl(null);
+        setStatus('Could not create a share link.');
+      });
+  };
+
+  return (
+    <div className="share-button">
+      <button
+        className="profile-switcher-button"
+        onClick={handleShare}
+        title="Share your goals and stash as a link"
+      >
+        <Share2 size={14} />
+      </button>
+      {(shareUrl || status) && (
+        <div className="share-button-popover">
+          <div className="share-button-status">
+            <span>{status}</span>
+            <button
+              className="share-button-close"
+              onClick={() => {
+                setShareUrl(null);
+                setStatus(null);
+              }}
+            >
+              &times;
+            </button>
+          </div>
+          {shareUrl && (
+            <input
+              type="text"
+              className="share-button-url"
+              value={shareUrl}
+              readOnly
+              autoFocus
+              onFocus={(e) => e.target.select()}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import { Share2 } from 'lucide-react';
+import type { ItemsMap } from '../types/item';
+import type { SharedPlan } from '../utils/shareLink';
+import { getItemsById, getRarityClass } from '../utils/dataLoader';
+import { withCustomGoals } from '../utils/customGoals';
+import { ItemIconWithInfo } from './ItemIconWithInfo';
+import { SidePanel } from './SidePanel';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface SharedPlanPanelProps {
+  itemsMap: ItemsMap;
+  sharedPlan: SharedPlan | null;
+  error: string | null;
+  goalItemIds: string[];
+  outstandingMaterials: Map<string, number>;
+  onAdopt: (sharedPlan: SharedPlan) => void;
+  onClose: () => void;
+}
+
+/**
+ * Read-only view of a plan opened from a share link, compared with your own
+ */
+export function SharedPlanPanel({
+  itemsMap,
+  sharedPlan,
+  error,
+  goalItemIds,
+  outstandingMaterials,
+  onAdopt,
+  onClose,
+}: SharedPlanPanelProps) {
+  const { localize } = useLanguage();
+  // Shared custom goals are not in your own item list
+  const sharedItemsMap = useMemo(
+    () => withCustomGoals(itemsMap, sharedPlan?.customGoals || []),
+    [itemsMap, sharedPlan]
+  );
+
+  const getName = (itemId: string) => localize(sharedItemsMap[itemId]?.name) || itemId;
+
+  if (!sharedPlan) {
+    return (
+      <SidePanel title="Shared Plan" icon={<Share2 size={16} />}>
+        <div className="side-panel-empty">{error}</div>
+        <div className="side-panel-summary">
+          <button className="filter-action-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </SidePanel>
+    );
+  }
+
+  const { items: goals, unknownIds } = getItemsById(sharedPlan.goalItems, sharedItemsMap);
+  // Their stash entries that cover materials you still need
+  const helpfulStash = Object.entries(sharedPlan.stashCounts)
+    .filter(([itemId, count]) => count > 0 && (outstandingMaterials.get(itemId) || 0) > 0)
+    .sort(([a], [b]) => getName(a).localeCompare(getName(b)));
+
+  return (
+    <SidePanel title={`Shared Plan: ${sharedPlan.name}`} icon={<Share2 size={16} />}>
+      {goals.length === 0 ? (
+        <div className="side-panel-empty">The shared plan has no goals.</div>
+      ) : (
+        <div className="side-panel-list">
+          {goals.map((item) => (
+            <div key={item.id} className="side-panel-row">
+              <div className="side-panel-row-main">
+                <span className="side-panel-row-count">{sharedPlan.goalQuantities[item.id] || 1}×</span>
+                {item.imageFilename && (
+                  <ItemIconWithInfo
+                    item={item}
+                    itemsMap={sharedItemsMap}
+                    className={`side-panel-icon ${getRarityClass(item.rarity)}`}
+                  />
+                )}
+                <span className="side-panel-row-name">{localize(item.name)}</span>
+                {goalItemIds.includes(item.id) && <span className="shared-plan-common">also yours</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {unknownIds.length > 0 && (
+        <div className="side-panel-note">Not in the item data: {unknownIds.join(', ')}</div>
+      )}
+
+      <div className="side-panel-note">
+        {helpfulStash.length === 0
+          ? `Their stash (${Object.keys(sharedPlan.stashCounts).length} items) holds nothing you still need.`
+          : `Their stash holds materials you still need: ${helpfulStash
+              .map(([itemId, count]) => `${getName(itemId)} ×${count}`)
+              .join(', ')}`}
+      </div>
+
+      <div className="side-panel-summary">
+        <button
+          className="filter-action-button"
+          onClick={() => onAdopt(sharedPlan)}
+          title="Create a new profile with these goals and this stash"
+        >
+          Adopt as new profile
+        </button>
+        <button className="filter-action-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </SidePanel>
+  );
+}
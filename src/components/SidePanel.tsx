@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+
+interface SidePanelProps {
+  title: string;
+  icon?: ReactNode;
+  defaultExpanded?: boolean;
+  children: ReactNode;
+}
+
+export function SidePanel({ title, icon, defaultExpanded = true, children }: SidePanelProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+
+  return (
+    <div className={`side-panel ${expanded ? 'expanded' : ''}`}>
+      <div className="side-panel-header" onClick={() => setExpanded(!expanded)}>
+        <div className="side-panel-title">
+          {icon}
+          {title}
+        </div>
+        <span className="side-panel-toggle">
+          {expanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+        </span>
+      </div>
+      {expanded && <div className="side-panel-content">{children}</div>}
+    </div>
+  );
+}
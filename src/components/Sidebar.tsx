@@ -1,38 +1,104 @@
 import { useState, useEffect, useRef } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Lock, TriangleAlert } from 'lucide-react';
 import type { Item, ItemsMap } from '../types/item';
-import { getRarityClass } from '../utils/dataLoader';
+import type { HideoutModule } from '../types/hideout';
+import type { GoalPreset } from '../types/preset';
+import { getItemsById, getRarityClass } from '../utils/dataLoader';
 import { ItemIconWithInfo } from './ItemIconWithInfo';
 import { HelpDialog } from './HelpDialog';
+import { WorkshopSettings } from './WorkshopSettings';
+import { CustomGoalEditor } from './CustomGoalEditor';
+import { PresetLibrary } from './PresetLibrary';
+import { getDefaultTierRange, getWeaponBaseName, getWeaponTiers, TIER_LABELS } from '../utils/weaponTiers';
+import type { WeaponTierRange } from '../utils/weaponTiers';
+import { getBenchLabel } from '../utils/workshop';
+import type { StationRequirement, WorkshopLevels } from '../utils/workshop';
+import { isCustomGoalId } from '../utils/customGoals';
+import type { CustomGoal } from '../utils/customGoals';
+import type { GoalGroup, GoalGroupMembership } from '../utils/goalGroups';
+import { useLanguage } from '../contexts/LanguageContext';
+import { matchesItemName } from '../i18n';
 
 interface SidebarProps {
   itemsMap: ItemsMap;
   goalItemIds: string[];
+  goalQuantities: Record<string, number>;
+  goalGroups: GoalGroup[];
+  goalGroupMembership: GoalGroupMembership;
+  presets: GoalPreset[];
+  customGoals: CustomGoal[];
+  weaponTierRanges: Record<string, WeaponTierRange>;
   disabledItemIds: Set<string>;
+  hideoutModules: HideoutModule[];
+  workshopLevels: WorkshopLevels;
+  lockedGoals: Map<string, string>; // Goal item id -> missing blueprint id
+  stationBlockedGoals: Map<string, StationRequirement>; // Goal item id -> highest unmet station level
   onAddGoalItem: (itemId: string) => void;
   onRemoveGoalItem: (itemId: string) => void;
+  onChangeGoalQuantity: (itemId: string, quantity: number) => void;
+  onSaveCustomGoal: (customGoal: CustomGoal) => void;
+  onChangeWeaponTierRange: (itemId: string, range: WeaponTierRange) => void;
   onToggleGoalItem: (itemId: string) => void;
   onReorderGoalItems: (reorderedIds: string[]) => void;
   onEnableAllGoalItems: () => void;
   onDisableAllGoalItems: () => void;
+  onAddGoalGroup: (name: string) => void;
+  onRenameGoalGroup: (groupId: string, name: string) => void;
+  onRemoveGoalGroup: (groupId: string) => void;
+  onToggleGoalGroupCollapsed: (groupId: string) => void;
+  onMoveGoalGroup: (groupId: string, offset: number) => void;
+  onToggleGoalGroup: (groupId: string) => void;
+  onAssignGoalGroup: (itemId: string, groupId: string | null) => void;
+  onAddPreset: (preset: GoalPreset) => void;
+  onChangeWorkshopLevel: (benchId: string, level: number | null) => void;
 }
 
 export function Sidebar({
   itemsMap,
   goalItemIds,
+  goalQuantities,
+  goalGroups,
+  goalGroupMembership,
+  presets,
+  customGoals,
+  weaponTierRanges,
   disabledItemIds,
+  hideoutModules,
+  workshopLevels,
+  lockedGoals,
+  stationBlockedGoals,
   onAddGoalItem,
   onRemoveGoalItem,
+  onChangeGoalQuantity,
+  onSaveCustomGoal,
+  onChangeWeaponTierRange,
   onToggleGoalItem,
   onReorderGoalItems,
   onEnableAllGoalItems,
   onDisableAllGoalItems,
+  onAddGoalGroup,
+  onRenameGoalGroup,
+  onRemoveGoalGroup,
+  onToggleGoalGroupCollapsed,
+  onMoveGoalGroup,
+  onToggleGoalGroup,
+  onAssignGoalGroup,
+  onAddPreset,
+  onChangeWorkshopLevel,
 }: SidebarProps) {
+  const { language, t, localize } = useLanguage();
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredItems, setFilteredItems] = useState<Item[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
   const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [dropTargetGroupId, setDropTargetGroupId] = useState<string | null>(null);
+  const [newGroupName, setNewGroupName] = useState<string | null>(null); // null while not adding a group
+  const [renamingGroupId, setRenamingGroupId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [showCustomGoalEditor, setShowCustomGoalEditor] = useState(false);
+  const [editingCustomGoal, setEditingCustomGoal] = useState<CustomGoal | null>(null);
   const searchTimeoutRef = useRef<number | undefined>(undefined);
 
   // Debounced search
@@ -48,10 +114,9 @@ export function Sidebar({
     }
 
     searchTimeoutRef.current = window.setTimeout(() => {
-      const searchLower = searchTerm.toLowerCase();
       const results = Object.values(itemsMap)
         .filter((item) => {
-          if (!item.name.en.toLowerCase().includes(searchLower)) {
+          if (isCustomGoalId(item.id) || !matchesItemName(item.name, searchTerm, language)) {
             return false;
           }
           // Only show craftable items (must have recipe with at least one ingredient)
@@ -68,7 +133,7 @@ export function Sidebar({
         clearTimeout(searchTimeoutRef.current);
       }
     };
-  }, [searchTerm, itemsMap]);
+  }, [searchTerm, itemsMap, language]);
 
   const handleAddItem = (itemId: string) => {
     onAddGoalItem(itemId);
@@ -116,18 +181,223 @@ export function Sidebar({
     newOrder.splice(targetIndex, 0, draggedItemId);
 
     onReorderGoalItems(newOrder);
+
+    // Dropping onto a goal of another group moves it into that group
+    const targetGroupId = getGroupId(targetItemId);
+    if (getGroupId(draggedItemId) !== targetGroupId) {
+      onAssignGoalGroup(draggedItemId, targetGroupId);
+    }
+
     setDraggedItemId(null);
     setDropTargetId(null);
   };
 
+  const handleGroupDragOver = (e: React.DragEvent, groupId: string) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    if (draggedItemId) {
+      setDropTargetGroupId(groupId);
+    }
+  };
+
+  const handleGroupDrop = (e: React.DragEvent, groupId: string) => {
+    e.preventDefault();
+
+    if (draggedItemId) {
+      onAssignGoalGroup(draggedItemId, groupId);
+    }
+    setDraggedItemId(null);
+    setDropTargetGroupId(null);
+  };
+
+  const handleCreateGroup = () => {
+    if (newGroupName && newGroupName.trim()) {
+      onAddGoalGroup(newGroupName.trim());
+    }
+    setNewGroupName(null);
+  };
+
+  const handleStartRename = (group: GoalGroup) => {
+    setRenamingGroupId(group.id);
+    setRenameValue(group.name);
+  };
+
+  const handleFinishRename = () => {
+    if (renamingGroupId && renameValue.trim()) {
+      onRenameGoalGroup(renamingGroupId, renameValue.trim());
+    }
+    setRenamingGroupId(null);
+  };
+
   const handleDragEnd = () => {
     setDraggedItemId(null);
     setDropTargetId(null);
+    setDropTargetGroupId(null);
+  };
+
+  const handleOpenCustomGoalEditor = (customGoal: CustomGoal | null) => {
+    setEditingCustomGoal(customGoal);
+    setShowCustomGoalEditor(true);
   };
 
-  const goalItems = goalItemIds
-    .map((id) => itemsMap[id])
-    .filter((item) => item !== undefined);
+  const handleSaveCustomGoal = (customGoal: CustomGoal) => {
+    onSaveCustomGoal(customGoal);
+    setShowCustomGoalEditor(false);
+    setEditingCustomGoal(null);
+  };
+
+  const handleCancelCustomGoal = () => {
+    setShowCustomGoalEditor(false);
+    setEditingCustomGoal(null);
+  };
+
+  const { items: goalItems, unknownIds: unknownGoalIds } = getItemsById(goalItemIds, itemsMap);
+
+  // Goals whose group no longer exists count as ungrouped
+  const getGroupId = (itemId: string): string | null => {
+    const groupId = goalGroupMembership[itemId];
+    return groupId && goalGroups.some((group) => group.id === groupId) ? groupId : null;
+  };
+  const ungroupedItems = goalItems.filter((item) => getGroupId(item.id) === null);
+
+  const renderGoalItem = (item: Item) => {
+    const isDisabled = disabledItemIds.has(item.id);
+    const isDragging = draggedItemId === item.id;
+    const isDropTarget = dropTargetId === item.id;
+    const weaponTiers = getWeaponTiers(item, itemsMap);
+    const tierRange = weaponTierRanges[item.id] ?? getDefaultTierRange(weaponTiers);
+    const missingStation = stationBlockedGoals.get(item.id);
+    const missingBlueprintId = lockedGoals.get(item.id);
+    const customGoal = customGoals.find((goal) => goal.id === item.id);
+    return (
+      <div
+        key={item.id}
+        className={`goal-items-list-item ${isDisabled ? 'disabled' : ''} ${isDragging ? 'dragging' : ''} ${isDropTarget ? 'drop-target' : ''}`}
+        draggable
+        onDragStart={(e) => handleDragStart(e, item.id)}
+        onDragOver={(e) => handleDragOver(e, item.id)}
+        onDragLeave={handleDragLeave}
+        onDrop={(e) => handleDrop(e, item.id)}
+        onDragEnd={handleDragEnd}
+      >
+        <div
+          className="goal-items-list-item-content"
+          onClick={() => onToggleGoalItem(item.id)}
+          title={isDisabled ? t('sidebar.clickToEnable') : t('sidebar.clickToDisable')}
+        >
+          {item.imageFilename && (
+            <ItemIconWithInfo
+              item={item}
+              itemsMap={itemsMap}
+              className={`goal-items-list-item-icon ${getRarityClass(item.rarity)}`}
+            />
+          )}
+          {weaponTiers.length > 1 ? (
+            <div className="goal-items-list-item-weapon">
+              <span className="goal-items-list-item-name">{getWeaponBaseName(item, language)}</span>
+              <div
+                className="goal-items-list-item-tiers"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <select
+                  value={tierRange.ownedTier}
+                  onChange={(e) =>
+                    onChangeWeaponTierRange(item.id, {
+                      ...tierRange,
+                      ownedTier: Number(e.target.value),
+                    })
+                  }
+                  title={t('sidebar.ownedTier')}
+                >
+                  {[{ tier: 0 }, ...weaponTiers]
+                    .filter((tier) => (tier.tier || 0) < tierRange.targetTier)
+                    .map((tier) => (
+                      <option key={tier.tier} value={tier.tier}>
+                        {TIER_LABELS[tier.tier || 0]}
+                      </option>
+                    ))}
+                </select>
+                <span>→</span>
+                <select
+                  value={tierRange.targetTier}
+                  onChange={(e) =>
+                    onChangeWeaponTierRange(item.id, {
+                      ...tierRange,
+                      targetTier: Number(e.target.value),
+                    })
+                  }
+                  title={t('sidebar.targetTier')}
+                >
+                  {weaponTiers
+                    .filter((tier) => (tier.tier || 0) > tierRange.ownedTier)
+                    .map((tier) => (
+                      <option key={tier.tier} value={tier.tier}>
+                        {TIER_LABELS[tier.tier || 0]}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+          ) : (
+            <span className="goal-items-list-item-name">{localize(item.name)}</span>
+          )}
+          {missingBlueprintId && (
+            <span
+              className="goal-items-list-item-locked"
+              title={t('sidebar.locked', {
+                blueprint: localize(itemsMap[missingBlueprintId]?.name) || t('sidebar.lockedBlueprint'),
+              })}
+            >
+              <Lock size={14} />
+            </span>
+          )}
+          {missingStation && (
+            <span
+              className="goal-items-list-item-station"
+              title={t('sidebar.missingStation', {
+                bench: getBenchLabel(missingStation.bench),
+                required: missingStation.requiredLevel,
+                current: missingStation.currentLevel,
+              })}
+            >
+              <TriangleAlert size={14} />
+              {missingStation.requiredLevel}
+            </span>
+          )}
+        </div>
+        {customGoal && (
+          <button
+            className="goal-items-list-item-edit"
+            onClick={() => handleOpenCustomGoalEditor(customGoal)}
+            title={t('sidebar.editMaterials')}
+          >
+            ✎
+          </button>
+        )}
+        <input
+          type="number"
+          className="goal-items-list-item-quantity"
+          min={1}
+          value={goalQuantities[item.id] ?? 1}
+          onChange={(e) => {
+            const quantity = parseInt(e.target.value, 10);
+            if (!isNaN(quantity)) {
+              onChangeGoalQuantity(item.id, quantity);
+            }
+          }}
+          title={t('sidebar.quantityTitle')}
+        />
+        <button
+          className="goal-items-list-item-remove"
+          onClick={() => onRemoveGoalItem(item.id)}
+          title={t('sidebar.removeGoal')}
+        >
+          ×
+        </button>
+      </div>
+    );
+  };
 
   return (
     <div className="sidebar">
@@ -136,18 +406,18 @@ export function Sidebar({
         <div className="sidebar-section">
           <div className="search-box">
             <div className="search-box-header">
-              <label className="sidebar-section-title">Goal Items</label>
+              <label className="sidebar-section-title">{t('sidebar.goalItems')}</label>
               <button 
                 className="help-icon-button" 
                 onClick={() => setShowHelp(true)}
-                title="How to use"
+                title={t('sidebar.howToUse')}
               >
                 ?
               </button>
             </div>
             <input
               type="text"
-              placeholder="Search items..."
+              placeholder={t('sidebar.searchPlaceholder')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               onFocus={() => {
@@ -168,13 +438,17 @@ export function Sidebar({
                     {item.imageFilename && (
                       <img
                         src={item.imageFilename}
-                        alt={item.name.en}
+                        alt={localize(item.name)}
                         className={`autocomplete-dropdown-item-icon ${getRarityClass(item.rarity)}`}
                       />
                     )}
                     <span className="autocomplete-dropdown-item-name">
-                      {item.name.en}
+                      {localize(item.name)}
                     </span>
+                    {/* Quests and workstation upgrades have no icon, tell them apart from items */}
+                    {!item.imageFilename && (
+                      <span className="autocomplete-dropdown-item-type">{item.type}</span>
+                    )}
                     <div className="autocomplete-dropdown-item-add">+</div>
                   </div>
                 ))}
@@ -186,76 +460,200 @@ export function Sidebar({
         {/* Goal Items List */}
         <div className="sidebar-section">
           <div className="sidebar-section-header">
-            <div className="sidebar-section-title">Your Goals</div>
-            {goalItems.length > 0 && (
-              <div className="sidebar-section-actions">
-                <button
-                  onClick={onEnableAllGoalItems}
-                  className="sidebar-section-action"
-                  disabled={disabledItemIds.size === 0}
-                  title="Enable all goal items"
-                >
-                  Enable All
-                </button>
-                <button
-                  onClick={onDisableAllGoalItems}
-                  className="sidebar-section-action"
-                  disabled={disabledItemIds.size === goalItems.length}
-                  title="Disable all goal items"
-                >
-                  Disable All
-                </button>
-              </div>
-            )}
+            <div className="sidebar-section-title">{t('sidebar.yourGoals')}</div>
+            <div className="sidebar-section-actions">
+              <button
+                onClick={() => handleOpenCustomGoalEditor(null)}
+                className="sidebar-section-action"
+                disabled={showCustomGoalEditor}
+                title={t('sidebar.addCustomTitle')}
+              >
+                {t('sidebar.addCustom')}
+              </button>
+              <button
+                onClick={() => setNewGroupName('')}
+                className="sidebar-section-action"
+                disabled={newGroupName !== null}
+                title={t('sidebar.addGroupTitle')}
+              >
+                {t('sidebar.addGroup')}
+              </button>
+              {goalItems.length > 0 && (
+                <>
+                  <button
+                    onClick={onEnableAllGoalItems}
+                    className="sidebar-section-action"
+                    disabled={disabledItemIds.size === 0}
+                    title={t('sidebar.enableAllTitle')}
+                  >
+                    {t('sidebar.enableAll')}
+                  </button>
+                  <button
+                    onClick={onDisableAllGoalItems}
+                    className="sidebar-section-action"
+                    disabled={disabledItemIds.size === goalItems.length}
+                    title={t('sidebar.disableAllTitle')}
+                  >
+                    {t('sidebar.disableAll')}
+                  </button>
+                </>
+              )}
+            </div>
           </div>
-          {goalItems.length === 0 ? (
-            <div className="goal-items-list-empty">
-              No goal items yet. Search and add items above.
+          {showCustomGoalEditor && (
+            <CustomGoalEditor
+              key={editingCustomGoal?.id ?? 'new'}
+              itemsMap={itemsMap}
+              customGoal={editingCustomGoal}
+              onSave={handleSaveCustomGoal}
+              onCancel={handleCancelCustomGoal}
+            />
+          )}
+          {newGroupName !== null && (
+            <input
+              type="text"
+              className="goal-group-name-input"
+              placeholder={t('sidebar.groupNamePlaceholder')}
+              value={newGroupName}
+              autoFocus
+              onChange={(e) => setNewGroupName(e.target.value)}
+              onBlur={handleCreateGroup}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleCreateGroup();
+                } else if (e.key === 'Escape') {
+                  setNewGroupName(null);
+                }
+              }}
+            />
+          )}
+          {unknownGoalIds.length > 0 && (
+            <div className="goal-items-unknown">
+              <div className="goal-items-unknown-title">
+                <TriangleAlert size={14} />
+                {t('sidebar.unknownItems')}
+              </div>
+              {unknownGoalIds.map((itemId) => (
+                <div key={itemId} className="goal-items-unknown-item">
+                  <span className="goal-items-unknown-id">{itemId}</span>
+                  <button
+                    className="goal-items-list-item-remove"
+                    onClick={() => onRemoveGoalItem(itemId)}
+                    title={t('sidebar.removeGoal')}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
             </div>
+          )}
+          {goalItems.length === 0 && goalGroups.length === 0 ? (
+            <div className="goal-items-list-empty">{t('sidebar.noGoals')}</div>
           ) : (
-            <div className="goal-items-list">
-              {goalItems.map((item) => {
-                const isDisabled = disabledItemIds.has(item.id);
-                const isDragging = draggedItemId === item.id;
-                const isDropTarget = dropTargetId === item.id;
+            <>
+              {ungroupedItems.length > 0 && (
+                <div className="goal-items-list">
+                  {ungroupedItems.map(renderGoalItem)}
+                </div>
+              )}
+              {goalGroups.map((group, index) => {
+                const members = goalItems.filter((item) => getGroupId(item.id) === group.id);
+                const enabledCount = members.filter((item) => !disabledItemIds.has(item.id)).length;
                 return (
-                  <div
-                    key={item.id}
-                    className={`goal-items-list-item ${isDisabled ? 'disabled' : ''} ${isDragging ? 'dragging' : ''} ${isDropTarget ? 'drop-target' : ''}`}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, item.id)}
-                    onDragOver={(e) => handleDragOver(e, item.id)}
-                    onDragLeave={handleDragLeave}
-                    onDrop={(e) => handleDrop(e, item.id)}
-                    onDragEnd={handleDragEnd}
-                  >
+                  <div key={group.id} className={`goal-group ${group.collapsed ? 'collapsed' : ''}`}>
                     <div
-                      className="goal-items-list-item-content"
-                      onClick={() => onToggleGoalItem(item.id)}
-                      title={isDisabled ? 'Click to enable' : 'Click to disable'}
+                      className={`goal-group-header ${dropTargetGroupId === group.id ? 'drop-target' : ''}`}
+                      onDragOver={(e) => handleGroupDragOver(e, group.id)}
+                      onDragLeave={() => setDropTargetGroupId(null)}
+                      onDrop={(e) => handleGroupDrop(e, group.id)}
                     >
-                      {item.imageFilename && (
-                        <ItemIconWithInfo
-                          item={item}
-                          itemsMap={itemsMap}
-                          className={`goal-items-list-item-icon ${getRarityClass(item.rarity)}`}
+                      <button
+                        className="goal-group-button"
+                        onClick={() => onToggleGoalGroupCollapsed(group.id)}
+                        title={group.collapsed ? t('sidebar.expandGroup') : t('sidebar.collapseGroup')}
+                      >
+                        {group.collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                      </button>
+                      <input
+                        type="checkbox"
+                        checked={enabledCount > 0}
+                        disabled={members.length === 0}
+                        onChange={() => onToggleGoalGroup(group.id)}
+                        title={t('sidebar.toggleGroup')}
+                      />
+                      {renamingGroupId === group.id ? (
+                        <input
+                          type="text"
+                          className="goal-group-name-input"
+                          value={renameValue}
+                          autoFocus
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onBlur={handleFinishRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              handleFinishRename();
+                            } else if (e.key === 'Escape') {
+                              setRenamingGroupId(null);
+                            }
+                          }}
                         />
+                      ) : (
+                        <span
+                          className="goal-group-name"
+                          onDoubleClick={() => handleStartRename(group)}
+                          title={t('sidebar.renameGroup')}
+                        >
+                          {group.name}
+                        </span>
                       )}
-                      <span className="goal-items-list-item-name">{item.name.en}</span>
+                      <span className="goal-group-count">
+                        {enabledCount}/{members.length}
+                      </span>
+                      <button
+                        className="goal-group-button"
+                        onClick={() => onMoveGoalGroup(group.id, -1)}
+                        disabled={index === 0}
+                        title={t('sidebar.moveGroupUp')}
+                      >
+                        <ArrowUp size={12} />
+                      </button>
+                      <button
+                        className="goal-group-button"
+                        onClick={() => onMoveGoalGroup(group.id, 1)}
+                        disabled={index === goalGroups.length - 1}
+                        title={t('sidebar.moveGroupDown')}
+                      >
+                        <ArrowDown size={12} />
+                      </button>
+                      <button
+                        className="goal-items-list-item-remove"
+                        onClick={() => onRemoveGoalGroup(group.id)}
+                        title={t('sidebar.removeGroup')}
+                      >
+                        ×
+                      </button>
                     </div>
-                    <button
-                      className="goal-items-list-item-remove"
-                      onClick={() => onRemoveGoalItem(item.id)}
-                      title="Remove from goals"
-                    >
-                      ×
-                    </button>
+                    {!group.collapsed &&
+                      (members.length === 0 ? (
+                        <div className="goal-group-empty">{t('sidebar.emptyGroup')}</div>
+                      ) : (
+                        <div className="goal-items-list">{members.map(renderGoalItem)}</div>
+                      ))}
                   </div>
                 );
               })}
-            </div>
+            </>
           )}
         </div>
+
+        <PresetLibrary itemsMap={itemsMap} presets={presets} onAddPreset={onAddPreset} />
+
+        <WorkshopSettings
+          itemsMap={itemsMap}
+          hideoutModules={hideoutModules}
+          workshopLevels={workshopLevels}
+          onChangeWorkshopLevel={onChangeWorkshopLevel}
+        />
       </div>
       {showHelp && <HelpDialog onClose={() => setShowHelp(false)} />}
     </div>
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { TriangleAlert } from 'lucide-react';
+import { clearQuarantine, loadQuarantine } from '../utils/storage';
+import { useLanguage } from '../contexts/LanguageContext';
+
+/**
+ * Tells the user when saved data could not be read and was set aside,
+ * so it can be downloaded before it is discarded.
+ */
+export function StorageNotice() {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState(() => loadQuarantine());
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'looting-helper-unreadable-data.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDiscard = () => {
+    clearQuarantine();
+    setEntries([]);
+  };
+
+  return (
+    <div className="storage-notice">
+      <TriangleAlert size={16} />
+      <span>
+        {entries.length === 1 ? t('storageNotice.one') : t('storageNotice.many', { count: entries.length })}
+      </span>
+      <button className="storage-notice-button" onClick={handleDownload}>
+        {t('storageNotice.download')}
+      </button>
+      <button className="storage-notice-button" onClick={handleDiscard}>
+        {t('storageNotice.discard')}
+      </button>
+    </div>
+  );
+}
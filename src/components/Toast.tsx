@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+
+interface ToastProps {
+  text: string;
+  duration?: number; // ms
+}
+
+/**
+ * A short message at the bottom of the screen that fades out by itself.
+ * Give it a new key to show another message.
+ */
+export function Toast({ text, duration = 3000 }: ToastProps) {
+  const [visible, setVisible] = useState(true);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setVisible(false), duration);
+    return () => clearTimeout(timeout);
+  }, [duration]);
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <div className="toast" role="status">
+      {text}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { ItemsMap } from '../types/item';
+import type { HideoutModule } from '../types/hideout';
+import { getCraftBenches, hasStationRequirements } from '../utils/workshop';
+import type { WorkshopLevels } from '../utils/workshop';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface WorkshopSettingsProps {
+  itemsMap: ItemsMap;
+  hideoutModules: HideoutModule[];
+  workshopLevels: WorkshopLevels;
+  onChangeWorkshopLevel: (benchId: string, level: number | null) => void;
+}
+
+export function WorkshopSettings({
+  itemsMap,
+  hideoutModules,
+  workshopLevels,
+  onChangeWorkshopLevel,
+}: WorkshopSettingsProps) {
+  const { t } = useLanguage();
+  const benches = getCraftBenches(itemsMap, hideoutModules);
+
+  return (
+    <div className="sidebar-section">
+      <div className="sidebar-section-header">
+        <div className="sidebar-section-title">{t('workshop.title')}</div>
+      </div>
+      {benches.length === 0 ? (
+        <div className="goal-items-list-empty">
+          {t('workshop.noBenches')}
+        </div>
+      ) : (
+        <div className="workshop-benches">
+          {!hasStationRequirements(itemsMap) && (
+            <div className="goal-items-list-empty">{t('workshop.noStationLevels')}</div>
+          )}
+          {benches.map((bench) => (
+            <label key={bench.id} className="workshop-bench">
+              <span className="workshop-bench-name">{bench.name}</span>
+              <select
+                value={workshopLevels[bench.id] ?? ''}
+                onChange={(e) =>
+                  onChangeWorkshopLevel(bench.id, e.target.value === '' ? null : Number(e.target.value))
+                }
+                title={t('workshop.levelTitle')}
+              >
+                <option value="">{t('workshop.notSet')}</option>
+                {Array.from({ length: bench.maxLevel + 1 }, (_, level) => (
+                  <option key={level} value={level}>
+                    {level === 0 ? t('workshop.notBuilt') : t('workshop.level', { level })}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
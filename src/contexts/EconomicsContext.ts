@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_GOAL_PREMIUM_PERCENT } from '../utils/economics';
+
+interface EconomicsContextValue {
+  neededMaterialIds: Set<string>; // Materials still missing for the enabled goals
+  goalPremiumPercent: number;
+}
+
+/**
+ * Provides what the current goals need to components deep in the tree
+ * (e.g. the item info box), so coin values can favour needed materials
+ */
+export const EconomicsContext = createContext<EconomicsContextValue>({
+  neededMaterialIds: new Set(),
+  goalPremiumPercent: DEFAULT_GOAL_PREMIUM_PERCENT,
+});
+
+export function useEconomics(): EconomicsContextValue {
+  return useContext(EconomicsContext);
+}
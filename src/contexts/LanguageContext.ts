@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_LANGUAGE, getLocalizedText, translate } from '../i18n';
+import type { Language, MessageKey } from '../i18n';
+import type { ItemName } from '../types/item';
+
+interface LanguageContextValue {
+  language: Language;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  localize: (text: ItemName | undefined) => string; // Item names and descriptions
+}
+
+export function createLanguageContextValue(language: Language): LanguageContextValue {
+  return {
+    language,
+    t: (key, params) => translate(language, key, params),
+    localize: (text) => getLocalizedText(text, language),
+  };
+}
+
+/**
+ * Provides the chosen language, its UI texts and localized item names to every component
+ */
+export const LanguageContext = createContext<LanguageContextValue>(createLanguageContextValue(DEFAULT_LANGUAGE));
+
+export function useLanguage(): LanguageContextValue {
+  return useContext(LanguageContext);
+}
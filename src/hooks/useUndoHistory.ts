@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from 'react';
+import { PROFILE_FIELDS } from '../utils/storageSchema';
+import type { ProfileData, ProfileField } from '../utils/storageSchema';
+
+/**
+ * One undoable action: the settings it changed, before and after
+ */
+export interface HistoryEntry {
+  label: string; // e.g. "removed Anvil"
+  fields: ProfileField[];
+  before: Partial<ProfileData>;
+  after: Partial<ProfileData>;
+  coalesceKey?: string;
+  recordedAt: number;
+}
+
+interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export interface HistoryNotice {
+  id: number;
+  text: string;
+}
+
+interface UseUndoHistoryOptions {
+  /**
+   * Reads the current settings of the active profile
+   */
+  readState: () => Partial<ProfileData>;
+  /**
+   * Writes the given settings back; fields missing from data are reset
+   */
+  restoreState: (data: Partial<ProfileData>, fields: ProfileField[]) => void;
+  /**
+   * Number of actions that can be undone (default: 50)
+   */
+  limit?: number;
+}
+
+// Kept per browser tab, so a reload doesn't lose the history
+const HISTORY_KEY = 'what-to-loot-history';
+
+// Repeated edits of the same value within this time become one step, e.g. typing a stash count
+const COALESCE_MS = 1000;
+
+function loadHistory(): History {
+  try {
+    const stored = sessionStorage.getItem(HISTORY_KEY);
+    return stored ? JSON.parse(stored) : { past: [], future: [] };
+  } catch (error) {
+    console.error('Failed to load undo history from sessionStorage:', error);
+    return { past: [], future: [] };
+  }
+}
+
+function saveHistory(history: History): void {
+  try {
+    sessionStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to save undo history to sessionStorage:', error);
+  }
+}
+
+function pickFields(data: Partial<ProfileData>, fields: ProfileField[]): Partial<ProfileData> {
+  return Object.fromEntries(fields.filter((field) => data[field] !== undefined).map((field) => [field, data[field]]));
+}
+
+// Text fields and inputs keep their own native undo
+function isEditingText(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+/**
+ * Undo/redo for actions that change the active profile's settings.
+ * Wrap each action in record(); Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes.
+ */
+export function useUndoHistory({ readState, restoreState, limit = 50 }: UseUndoHistoryOptions) {
+  const [history, setHistory] = useState<History>(() => loadHistory());
+  const [notice, setNotice] = useState<HistoryNotice | null>(null);
+  const recordingRef = useRef(false);
+
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  /**
+   * Runs an action as one undoable step. Actions started from within
+   * another recorded action become part of it.
+   */
+  const record = (label: string, action: () => void, coalesceKey?: string) => {
+    if (recordingRef.current) {
+      action();
+      return;
+    }
+
+    recordingRef.current = true;
+    const before = readState();
+    try {
+      action();
+    } finally {
+      recordingRef.current = false;
+    }
+    const after = readState();
+
+    const fields = PROFILE_FIELDS.filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+    if (fields.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    // Functional update: several actions may be recorded in the same event
+    setHistory((current) => {
+      const last = current.past[current.past.length - 1];
+      if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.recordedAt < COALESCE_MS) {
+        const merged: HistoryEntry = {
+          ...last,
+          label,
+          fields: Array.from(new Set([...last.fields, ...fields])),
+          before: { ...pickFields(before, fields), ...last.before },
+          after: { ...last.after, ...pickFields(after, fields) },
+          recordedAt: now,
+        };
+        return { past: [...current.past.slice(0, -1), merged], future: [] };
+      }
+
+      const entry: HistoryEntry = {
+        label,
+        fields,
+        before: pickFields(before, fields),
+        after: pickFields(after, fields),
+        coalesceKey,
+        recordedAt: now,
+      };
+      return { past: [...current.past, entry].slice(-limit), future: [] };
+    });
+  };
+
+  const undo = () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) {
+      return;
+    }
+    restoreState(entry.before, entry.fields);
+    setHistory({ past: history.past.slice(0, -1), future: [entry, ...history.future] });
+    setNotice({ id: Date.now(), text: `Undo: ${entry.label}` });
+  };
+
+  const redo = () => {
+    const entry = history.future[0];
+    if (!entry) {
+      return;
+    }
+    restoreState(entry.after, entry.fields);
+    setHistory({ past: [...history.past, entry], future: history.future.slice(1) });
+    setNotice({ id: Date.now(), text: `Redo: ${entry.label}` });
+  };
+
+  const clear = () => {
+    setHistory({ past: [], future: [] });
+  };
+
+  // Keyboard shortcuts
+  const undoRef = useRef(undo);
+  const redoRef = useRef(redo);
+  useEffect(() => {
+    undoRef.current = undo;
+    redoRef.current = redo;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditingText(e.target)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoRef.current();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    nextUndoLabel: history.past[history.past.length - 1]?.label ?? null,
+    nextRedoLabel: history.future[0]?.label ?? null,
+    notice,
+  };
+}
@@ -0,0 +1,155 @@
+import type { Messages } from './index';
+
+export const de: Messages = {
+  'language.label': 'Sprache',
+
+  'header.undo': 'Rückgängig: {label} (Strg+Z)',
+  'header.nothingToUndo': 'Nichts rückgängig zu machen',
+  'header.redo': 'Wiederholen: {label} (Strg+Umschalt+Z)',
+  'header.nothingToRedo': 'Nichts zu wiederholen',
+  'header.backup': 'Deine Daten sichern oder wiederherstellen',
+
+  'undo.addGoal': '{name} hinzugefügt',
+  'undo.removeGoal': '{name} entfernt',
+  'undo.changeQuantity': 'Anzahl von {name} geändert',
+  'undo.saveCustomGoal': '{name} gespeichert',
+  'undo.changeTiers': 'Stufen von {name} geändert',
+  'undo.enableGoal': '{name} aktiviert',
+  'undo.disableGoal': '{name} deaktiviert',
+  'undo.reorderGoals': 'Ziele umsortiert',
+  'undo.enableAll': 'Alle Ziele aktiviert',
+  'undo.disableAll': 'Alle Ziele deaktiviert',
+  'undo.addGroup': 'Gruppe {name} hinzugefügt',
+  'undo.renameGroup': 'Gruppe {name} umbenannt',
+  'undo.removeGroup': 'Gruppe {name} entfernt',
+  'undo.moveGroup': 'Gruppe {name} verschoben',
+  'undo.toggleGroup': 'Gruppe {name} umgeschaltet',
+  'undo.assignGroup': '{name} nach {group} verschoben',
+  'undo.ungroup': '{name} aus der Gruppe genommen',
+  'undo.addPreset': 'Vorlage {name} hinzugefügt',
+  'undo.setStash': 'Lagerbestand von {name} auf {count} gesetzt',
+  'undo.changeWorkshopLevel': 'Stufe von {bench} geändert',
+  'undo.learnBlueprint': '{name} als gelernt markiert',
+  'undo.unlearnBlueprint': '{name} als nicht gelernt markiert',
+
+  'storageNotice.one':
+    'Eine gespeicherte Einstellung konnte nicht gelesen werden und wurde beiseitegelegt; stattdessen gelten die Standardwerte.',
+  'storageNotice.many':
+    '{count} gespeicherte Einstellungen konnten nicht gelesen werden und wurden beiseitegelegt; stattdessen gelten die Standardwerte.',
+  'storageNotice.download': 'Herunterladen',
+  'storageNotice.discard': 'Verwerfen',
+
+  'workshop.title': 'Werkstatt',
+  'workshop.noBenches': 'Die Gegenstandsdaten enthalten keine Angaben zu Werkbänken.',
+  'workshop.noStationLevels':
+    'Die Gegenstandsdaten enthalten noch keine Stationsstufen, daher werden Ziele nicht gegen diese Stufen geprüft.',
+  'workshop.levelTitle': 'Deine aktuelle Stufe dieser Werkbank',
+  'workshop.notSet': 'Nicht gesetzt',
+  'workshop.notBuilt': 'Nicht gebaut',
+  'workshop.level': 'Stufe {level}',
+  'workshop.upgradeName': '{module} auf Stufe {level} ausbauen',
+  'workshop.upgradeDescription': 'Materialien, die noch fehlen, um {module} auf Stufe {level} zu bringen',
+
+  'presets.title': 'Vorlagen',
+  'presets.add': '+ Hinzufügen',
+  'presets.addTitle': 'Diese Ziele als neue Gruppe hinzufügen',
+
+  'customGoal.namePlaceholder': 'Name, z. B. Projekt Phase 2',
+  'customGoal.removeMaterial': 'Material entfernen',
+  'customGoal.addMaterialPlaceholder': 'Material hinzufügen...',
+  'customGoal.save': 'Speichern',
+  'customGoal.add': 'Ziel hinzufügen',
+  'customGoal.cancel': 'Abbrechen',
+
+  'quest.description': 'Auftrag',
+  'quest.descriptionTrader': 'Auftrag für {trader}',
+
+  'sidebar.goalItems': 'Ziel-Gegenstände',
+  'sidebar.howToUse': 'Anleitung',
+  'sidebar.searchPlaceholder': 'Gegenstände suchen...',
+  'sidebar.yourGoals': 'Deine Ziele',
+  'sidebar.addCustom': '+ Eigenes',
+  'sidebar.addCustomTitle': 'Ein Ziel mit eigener Materialliste hinzufügen, z. B. für Projekte oder Expeditionen',
+  'sidebar.addGroup': '+ Gruppe',
+  'sidebar.addGroupTitle': 'Eine benannte Gruppe hinzufügen, um deine Ziele zu ordnen',
+  'sidebar.enableAll': 'Alle aktivieren',
+  'sidebar.enableAllTitle': 'Alle Ziel-Gegenstände aktivieren',
+  'sidebar.disableAll': 'Alle deaktivieren',
+  'sidebar.disableAllTitle': 'Alle Ziel-Gegenstände deaktivieren',
+  'sidebar.groupNamePlaceholder': 'Gruppenname, z. B. PvP-Ausrüstung',
+  'sidebar.unknownItems': 'Nicht in den Gegenstandsdaten',
+  'sidebar.removeGoal': 'Aus den Zielen entfernen',
+  'sidebar.noGoals': 'Noch keine Ziel-Gegenstände. Suche oben nach Gegenständen und füge sie hinzu.',
+  'sidebar.clickToEnable': 'Klicken zum Aktivieren',
+  'sidebar.clickToDisable': 'Klicken zum Deaktivieren',
+  'sidebar.ownedTier': 'Stufe, die du schon besitzt',
+  'sidebar.targetTier': 'Stufe, die du anstrebst',
+  'sidebar.locked': 'Gesperrt: Du hast den {blueprint} noch nicht gelernt',
+  'sidebar.lockedBlueprint': 'Bauplan',
+  'sidebar.missingStation': 'Benötigt {bench} Stufe {required}, deine ist Stufe {current}',
+  'sidebar.editMaterials': 'Materialien bearbeiten',
+  'sidebar.quantityTitle': 'Wie viele du herstellen willst',
+  'sidebar.expandGroup': 'Gruppe aufklappen',
+  'sidebar.collapseGroup': 'Gruppe zuklappen',
+  'sidebar.toggleGroup': 'Alle Ziele dieser Gruppe aktivieren oder deaktivieren',
+  'sidebar.renameGroup': 'Doppelklicken zum Umbenennen',
+  'sidebar.moveGroupUp': 'Gruppe nach oben',
+  'sidebar.moveGroupDown': 'Gruppe nach unten',
+  'sidebar.removeGroup': 'Gruppe entfernen (ihre Ziele bleiben)',
+  'sidebar.emptyGroup': 'Ziele auf die Gruppenüberschrift ziehen, um sie hinzuzufügen.',
+
+  'accordion.nothing': 'nichts',
+  'accordion.search': 'Suche',
+  'accordion.searchPlaceholder': 'Tippen, um Gegenstände zu suchen...',
+  'accordion.sort': 'Sortierung',
+  'accordion.sortName': 'Name',
+  'accordion.sortSlot': 'Wert pro Platz',
+  'accordion.sortWeight': 'Wert pro kg',
+  'accordion.onlyWorthSlot': 'Nur lohnende Plätze',
+  'accordion.onlyWorthSlotTitle': 'Gegenstände ausblenden, die kein noch benötigtes Material liefern',
+  'accordion.type': 'Typ',
+  'accordion.rarity': 'Seltenheit',
+  'accordion.all': 'Alle',
+  'accordion.none': 'Keine',
+  'accordion.unknownItems': 'Nicht in den Gegenstandsdaten, daher nicht aufgeführt: {ids}',
+  'accordion.noItemsNeeded': 'Für deine Ziele werden keine Gegenstände benötigt.',
+  'accordion.noResults': 'Keine Gegenstände zu „{search}“ gefunden',
+  'accordion.goalBadge': 'Ziel',
+  'accordion.scoreTitle': 'Liefert {coverage} benötigte Einheiten pro Gegenstand',
+  'accordion.perSlot': '{value}/Platz',
+  'accordion.perKg': '{value}/kg',
+  'accordion.need': 'benötigt',
+  'accordion.needTitle': 'Gesamtmenge, die deine Ziele benötigen',
+  'accordion.have': 'vorhanden',
+  'accordion.haveTitle': 'Wie viele du schon in deinem Lager hast',
+  'accordion.loot': 'looten',
+  'accordion.lootTitle': 'Wie viele du noch looten musst',
+  'accordion.enoughTitle': 'Ich habe schon genug von diesem Material',
+  'accordion.requiredFor': 'Benötigt für:',
+  'accordion.stashTitle': 'Schon genug im Lager',
+  'accordion.stashCounts': '{have} vorhanden / {need} benötigt',
+  'accordion.restoreTitle': 'Wieder zu den benötigten Materialien hinzufügen',
+
+  'help.title': 'Anleitung',
+  'help.goalsTitle': '1. Lege deine Herstellungsziele fest',
+  'help.goalsText':
+    'Suche über die Suchleiste nach Gegenständen, die du regelmäßig herstellen willst, und füge sie hinzu. So entsteht deine Gesamtliste an Anforderungen.',
+  'help.prioritiesTitle': '2. Erkenne deine Loot-Prioritäten',
+  'help.prioritiesText':
+    'Die App erstellt automatisch eine Liste aller Grundressourcen und Materialien, die du für diese Herstellungsziele looten musst.',
+  'help.stashTitle': '3. Verwalte dein Lager',
+  'help.stashText':
+    'Gib ein, wie viele von jedem Material du schon in deinem Lager hast. Vorhandene Mengen werden vom Bedarf deiner Ziele abgezogen, sodass jede Zeile zeigt, wie viele du noch looten musst. Materialien, von denen du genug hast, wandern in den Bereich „Schon genug im Lager“.',
+  'help.raidsTitle': '4. Optimiere deine Raids',
+  'help.raidsText':
+    'Nutze diese Liste während oder nach einem Raid, um schnell zu sehen, welche Gegenstände du behalten oder zerlegen und welche du liegen lassen oder verkaufen solltest.',
+  'help.exampleTitle': 'Beispiel',
+  'help.exampleText':
+    'Wenn du ein bestimmtes Gadget herstellen willst, füge es als Ziel hinzu. Die Ansicht zeigt dir den ganzen Baum – vom fertigen Gegenstand bis zu Grundmaterialien wie „Platinen“ oder „Chemikalien“. Findest du während eines Raids einen „Oberflächen-Gegenstand“, kannst du schnell prüfen, in welche Materialien er sich zerlegen lässt, und entscheiden, ob er den Platz im Inventar wert ist.',
+  'help.noteLabel': 'Hinweis:',
+  'help.noteText':
+    'Dieses Werkzeug konzentriert sich auf Gegenstände, die zum Herstellen benötigt werden. Für Expeditionen oder Projekte kannst du mit „+ Eigenes“ ein Ziel mit eigener Materialliste hinzufügen.',
+  'help.learningTitle': 'Das Spiel kennenlernen',
+  'help.learningText':
+    'Ein großer Vorteil dieses Werkzeugs ist, dass du lernst, welche Materialien die „Oberflächen-Gegenstände“ liefern. Mit der Zeit bekommst du ein Gefühl dafür, was wertvoll ist. Das eigentliche Ziel: Nach vielen Stunden brauchst du dieses Werkzeug nicht mehr, weil du genau weißt, was du behalten solltest!',
+};
@@ -0,0 +1,157 @@
+/**
+ * English UI texts. This is the reference catalogue: every other language has the same keys.
+ * Placeholders like {name} are filled in by translate().
+ */
+export const en = {
+  'language.label': 'Language',
+
+  'header.undo': 'Undo: {label} (Ctrl+Z)',
+  'header.nothingToUndo': 'Nothing to undo',
+  'header.redo': 'Redo: {label} (Ctrl+Shift+Z)',
+  'header.nothingToRedo': 'Nothing to redo',
+  'header.backup': 'Back up or restore your data',
+
+  'undo.addGoal': 'added {name}',
+  'undo.removeGoal': 'removed {name}',
+  'undo.changeQuantity': 'changed the quantity of {name}',
+  'undo.saveCustomGoal': 'saved {name}',
+  'undo.changeTiers': 'changed the tiers of {name}',
+  'undo.enableGoal': 'enabled {name}',
+  'undo.disableGoal': 'disabled {name}',
+  'undo.reorderGoals': 'reordered goals',
+  'undo.enableAll': 'enabled all goals',
+  'undo.disableAll': 'disabled all goals',
+  'undo.addGroup': 'added group {name}',
+  'undo.renameGroup': 'renamed group {name}',
+  'undo.removeGroup': 'removed group {name}',
+  'undo.moveGroup': 'moved group {name}',
+  'undo.toggleGroup': 'toggled group {name}',
+  'undo.assignGroup': 'moved {name} to {group}',
+  'undo.ungroup': 'ungrouped {name}',
+  'undo.addPreset': 'added preset {name}',
+  'undo.setStash': 'set the stash of {name} to {count}',
+  'undo.changeWorkshopLevel': 'changed the {bench} level',
+  'undo.learnBlueprint': 'marked {name} as learned',
+  'undo.unlearnBlueprint': 'marked {name} as not learned',
+
+  'storageNotice.one': 'One saved setting could not be read and was set aside; defaults are used instead.',
+  'storageNotice.many': '{count} saved settings could not be read and were set aside; defaults are used instead.',
+  'storageNotice.download': 'Download',
+  'storageNotice.discard': 'Discard',
+
+  'workshop.title': 'Workshop',
+  'workshop.noBenches': 'The item data has no crafting bench information.',
+  'workshop.noStationLevels':
+    'The item data has no station levels yet, so goals are not checked against these levels.',
+  'workshop.levelTitle': 'Your current level of this bench',
+  'workshop.notSet': 'Not set',
+  'workshop.notBuilt': 'Not built',
+  'workshop.level': 'Level {level}',
+  'workshop.upgradeName': 'Upgrade {module} to level {level}',
+  'workshop.upgradeDescription': 'Materials still needed to bring {module} to level {level}',
+
+  'presets.title': 'Presets',
+  'presets.add': '+ Add',
+  'presets.addTitle': 'Add these goals as a new group',
+
+  'customGoal.namePlaceholder': 'Name, e.g. Project phase 2',
+  'customGoal.removeMaterial': 'Remove material',
+  'customGoal.addMaterialPlaceholder': 'Add material...',
+  'customGoal.save': 'Save',
+  'customGoal.add': 'Add Goal',
+  'customGoal.cancel': 'Cancel',
+
+  'quest.description': 'Quest',
+  'quest.descriptionTrader': 'Quest for {trader}',
+
+  'sidebar.goalItems': 'Goal Items',
+  'sidebar.howToUse': 'How to use',
+  'sidebar.searchPlaceholder': 'Search items...',
+  'sidebar.yourGoals': 'Your Goals',
+  'sidebar.addCustom': '+ Custom',
+  'sidebar.addCustomTitle': 'Add a goal with your own list of materials, e.g. for projects or expeditions',
+  'sidebar.addGroup': '+ Group',
+  'sidebar.addGroupTitle': 'Add a named group to organise your goals',
+  'sidebar.enableAll': 'Enable All',
+  'sidebar.enableAllTitle': 'Enable all goal items',
+  'sidebar.disableAll': 'Disable All',
+  'sidebar.disableAllTitle': 'Disable all goal items',
+  'sidebar.groupNamePlaceholder': 'Group name, e.g. PvP kit',
+  'sidebar.unknownItems': 'Not in the item data',
+  'sidebar.removeGoal': 'Remove from goals',
+  'sidebar.noGoals': 'No goal items yet. Search and add items above.',
+  'sidebar.clickToEnable': 'Click to enable',
+  'sidebar.clickToDisable': 'Click to disable',
+  'sidebar.ownedTier': 'Tier you already own',
+  'sidebar.targetTier': 'Tier you are aiming for',
+  'sidebar.locked': "Locked: you haven't learned the {blueprint} yet",
+  'sidebar.lockedBlueprint': 'blueprint',
+  'sidebar.missingStation': 'Needs {bench} level {required}, yours is level {current}',
+  'sidebar.editMaterials': 'Edit materials',
+  'sidebar.quantityTitle': 'How many you want to craft',
+  'sidebar.expandGroup': 'Expand group',
+  'sidebar.collapseGroup': 'Collapse group',
+  'sidebar.toggleGroup': 'Enable or disable all goals in this group',
+  'sidebar.renameGroup': 'Double-click to rename',
+  'sidebar.moveGroupUp': 'Move group up',
+  'sidebar.moveGroupDown': 'Move group down',
+  'sidebar.removeGroup': 'Remove group (its goals stay)',
+  'sidebar.emptyGroup': 'Drag goals onto the group header to add them.',
+
+  'accordion.nothing': 'nothing',
+  'accordion.search': 'Search',
+  'accordion.searchPlaceholder': 'Type to search items...',
+  'accordion.sort': 'Sort',
+  'accordion.sortName': 'Name',
+  'accordion.sortSlot': 'Value per slot',
+  'accordion.sortWeight': 'Value per kg',
+  'accordion.onlyWorthSlot': 'Only worth a slot',
+  'accordion.onlyWorthSlotTitle': "Hide items that don't cover any material you still need",
+  'accordion.type': 'Type',
+  'accordion.rarity': 'Rarity',
+  'accordion.all': 'All',
+  'accordion.none': 'None',
+  'accordion.unknownItems': 'Not in the item data, so not listed: {ids}',
+  'accordion.noItemsNeeded': 'No items needed for your goals.',
+  'accordion.noResults': 'No items found matching "{search}"',
+  'accordion.goalBadge': 'Goal',
+  'accordion.scoreTitle': 'Covers {coverage} needed units per item',
+  'accordion.perSlot': '{value}/slot',
+  'accordion.perKg': '{value}/kg',
+  'accordion.need': 'need',
+  'accordion.needTitle': 'Total quantity needed for your goals',
+  'accordion.have': 'have',
+  'accordion.haveTitle': 'How many you already have in your stash',
+  'accordion.loot': 'loot',
+  'accordion.lootTitle': 'How many you still need to loot',
+  'accordion.enoughTitle': 'I have already enough of this material',
+  'accordion.requiredFor': 'Required for:',
+  'accordion.stashTitle': 'Already Enough in Stash',
+  'accordion.stashCounts': 'have {have} / need {need}',
+  'accordion.restoreTitle': 'Add back to required materials',
+
+  'help.title': 'How to Use',
+  'help.goalsTitle': '1. Set Your Crafting Goals',
+  'help.goalsText':
+    'Use the search bar to find and add items you want to regularly craft. This builds your master list of requirements.',
+  'help.prioritiesTitle': '2. Identify Loot Priorities',
+  'help.prioritiesText':
+    'The app automatically generates a list of all base resources and materials you need to loot to achieve these crafting goals.',
+  'help.stashTitle': '3. Manage Your Stash',
+  'help.stashText':
+    'Enter how many of each material you already have in your stash. Owned amounts are subtracted from what your goals need, so every row shows how many you still have to loot. Materials you have enough of move to the "Already Enough in Stash" section.',
+  'help.raidsTitle': '4. Optimize Your Raids',
+  'help.raidsText':
+    'Use this list during or after a raid to quickly understand what items to keep or salvage, versus what to leave behind or sell.',
+  'help.exampleTitle': 'Example Workflow',
+  'help.exampleText':
+    'If you are aiming to craft a specific gadget, add it as a goal. The visualizer will show you the entire tree—from the final item down to the basic materials like "Circuit Boards" or "Chemicals". If you find a "Topside Item" during a raid, you can quickly check which materials it salvages into, helping you decide if it\'s worth the inventory space.',
+  'help.noteLabel': 'Note:',
+  'help.noteText':
+    'This tool specifically focuses on items needed for crafting. For expeditions or projects, use "+ Custom" to add a goal with your own list of materials.',
+  'help.learningTitle': 'Learning the Game',
+  'help.learningText':
+    'A key benefit of this tool is learning the relationship between "topside items" and the materials they provide. As you use the app, you\'ll develop a "feel" for what\'s valuable. The ultimate goal is that you won\'t need this tool anymore after plenty of hours, because you\'ll have learned exactly what to keep!',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,70 @@
+import type { ItemName } from '../types/item';
+import { en } from './en';
+import type { MessageKey } from './en';
+import { de } from './de';
+
+export type { MessageKey };
+export type Messages = Record<MessageKey, string>;
+
+// Languages the UI is translated to; the item data may have names in more
+export const LANGUAGES = {
+  en: 'English',
+  de: 'Deutsch',
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const MESSAGES: Record<Language, Messages> = { en, de };
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
+}
+
+/**
+ * The UI text for the key, with {placeholders} filled in from params
+ */
+export function translate(language: Language, key: MessageKey, params?: Record<string, string | number>): string {
+  const message = MESSAGES[language][key] ?? en[key];
+  if (!params) {
+    return message;
+  }
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * The UI text for the key in every language, for texts that are stored like item data,
+ * e.g. the names of synthetic goal items. getParams fills in the placeholders per language.
+ */
+export function translateAll(
+  key: MessageKey,
+  getParams?: (language: Language) => Record<string, string | number>
+): ItemName {
+  const text: ItemName = { en: translate('en', key, getParams?.('en')) };
+  for (const language of Object.keys(LANGUAGES) as Language[]) {
+    text[language] = translate(language, key, getParams?.(language));
+  }
+  return text;
+}
+
+/**
+ * An item text in the language, falling back to English where the data has no translation
+ */
+export function getLocalizedText(text: ItemName | undefined, language: Language): string {
+  return text?.[language] || text?.en || '';
+}
+
+/**
+ * Whether the search term is part of the item name, in the language or in English,
+ * so names people learned in English are still found
+ */
+export function matchesItemName(name: ItemName, search: string, language: Language): boolean {
+  const term = search.toLocaleLowerCase(language);
+  return (
+    getLocalizedText(name, language).toLocaleLowerCase(language).includes(term) ||
+    name.en.toLowerCase().includes(term)
+  );
+}
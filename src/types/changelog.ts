@@ -0,0 +1,35 @@
+export interface RemovedItem {
+  id: string;
+  name: string; // The item is gone from the data, so its name is kept here
+}
+
+export interface RecipeChange {
+  itemId: string;
+  property: 'recipe' | 'upgradeCost';
+  before: Record<string, number> | null;
+  after: Record<string, number> | null;
+}
+
+export interface ValueChange {
+  itemId: string;
+  before: number | null;
+  after: number | null;
+}
+
+/**
+ * What changed in the item data between two versions, written by the data generator
+ */
+export interface DataChangelogEntry {
+  version: string;
+  previousVersion: string;
+  generatedAt: string; // ISO date
+  added: string[]; // Item ids
+  removed: RemovedItem[];
+  recipeChanges: RecipeChange[];
+  valueChanges: ValueChange[];
+}
+
+export interface DataChangelog {
+  version: string; // Version of the current items.json
+  entries: DataChangelogEntry[]; // Oldest first
+}
@@ -0,0 +1,13 @@
+import type { ItemName } from './item';
+
+export interface HideoutLevel {
+  level: number;
+  requirements: Record<string, number>; // Materials needed to reach this level
+}
+
+export interface HideoutModule {
+  id: string; // Same id as the craftBench of the items it crafts
+  name: ItemName;
+  maxLevel: number;
+  levels: HideoutLevel[];
+}
@@ -0,0 +1,14 @@
+export interface GoalPresetEntry {
+  itemId: string;
+  quantity?: number;
+}
+
+/**
+ * A bundled starter set of goals, added as a goal group in one click
+ */
+export interface GoalPreset {
+  id: string;
+  name: string;
+  description: string;
+  goals: GoalPresetEntry[];
+}
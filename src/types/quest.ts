@@ -0,0 +1,8 @@
+import type { ItemName } from './item';
+
+export interface Quest {
+  id: string;
+  name: ItemName;
+  trader?: string;
+  requirements: Record<string, number>; // Items to hand in
+}
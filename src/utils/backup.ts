@@ -0,0 +1,179 @@
+import type { ItemsMap } from '../types/item';
+import { PROFILE_FIELDS, PROFILE_SCHEMA, fromMergeEntries, parseDocument, toMergeEntries } from './storageSchema';
+import type { ProfileData, ProfileField, QuarantineEntry, StorageDocument } from './storageSchema';
+
+export const BACKUP_FORMAT = 'looting-helper-backup';
+
+/**
+ * A backup file: the whole storage document with all profiles
+ */
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  exportedAt: string; // ISO date
+  document: StorageDocument;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface FieldChange {
+  field: ProfileField;
+  label: string;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface ProfileChange {
+  profileId: string;
+  name: string;
+  status: 'added' | 'removed' | 'changed';
+  fields: FieldChange[];
+}
+
+export function createBackup(document: StorageDocument): Backup {
+  return { format: BACKUP_FORMAT, exportedAt: new Date().toISOString(), document };
+}
+
+export function getBackupFilename(date: Date = new Date()): string {
+  return `looting-helper-backup-${date.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Reads a backup file. Backups from older versions are migrated; settings
+ * that fail validation are returned so they can be reported.
+ * Throws if the file is not a backup at all.
+ */
+export function parseBackup(text: string): { document: StorageDocument; invalid: QuarantineEntry[] } {
+  let raw: Partial<Backup>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a Looting Helper backup.');
+  }
+
+  const { document, quarantined } = parseDocument(raw.document);
+  const documentError = quarantined.find((entry) => entry.source === 'document');
+  if (documentError) {
+    throw new Error(`The backup can't be read: ${documentError.reason}.`);
+  }
+  return { document, invalid: quarantined };
+}
+
+function getFieldValue<K extends ProfileField>(data: Partial<ProfileData> | undefined, field: K): ProfileData[K] {
+  const value = data?.[field];
+  return value !== undefined ? value : PROFILE_SCHEMA[field].defaultValue;
+}
+
+/**
+ * Combines two versions of a setting, the incoming one wins where both differ
+ */
+export function mergeFieldValues(field: ProfileField, current: unknown, incoming: unknown): unknown {
+  const { merge } = PROFILE_SCHEMA[field];
+  const entries = toMergeEntries(merge, current);
+  for (const [key, value] of toMergeEntries(merge, incoming)) {
+    entries.set(key, value);
+  }
+  return fromMergeEntries(merge, entries);
+}
+
+/**
+ * Adds the incoming profiles and settings to the current ones.
+ * Profiles are matched by id; the current profile names and the active profile are kept.
+ */
+export function mergeDocuments(current: StorageDocument, incoming: StorageDocument): StorageDocument {
+  const profiles = [...current.profiles];
+  const data: Record<string, Partial<ProfileData>> = { ...current.data };
+
+  for (const profile of incoming.profiles) {
+    if (!profiles.some((existing) => existing.id === profile.id)) {
+      profiles.push(profile);
+    }
+    const merged: Record<string, unknown> = { ...data[profile.id] };
+    for (const field of PROFILE_FIELDS) {
+      const incomingValue = incoming.data[profile.id]?.[field];
+      if (incomingValue === undefined) {
+        continue;
+      }
+      merged[field] = mergeFieldValues(field, getFieldValue(data[profile.id], field), incomingValue);
+    }
+    data[profile.id] = merged as Partial<ProfileData>;
+  }
+
+  return { ...current, profiles, data };
+}
+
+function diffField(field: ProfileField, current: unknown, next: unknown): FieldChange | null {
+  const { label, merge } = PROFILE_SCHEMA[field];
+  const before = toMergeEntries(merge, current);
+  const after = toMergeEntries(merge, next);
+  const change: FieldChange = { field, label, added: 0, removed: 0, changed: 0 };
+
+  for (const [key, value] of after) {
+    if (!before.has(key)) {
+      change.added += 1;
+    } else if (JSON.stringify(before.get(key)) !== JSON.stringify(value)) {
+      change.changed += 1;
+    }
+  }
+  for (const key of before.keys()) {
+    if (!after.has(key)) {
+      change.removed += 1;
+    }
+  }
+  return change.added + change.removed + change.changed > 0 ? change : null;
+}
+
+/**
+ * Lists what changes, per profile and setting, when the current document is replaced by the next one
+ */
+export function diffDocuments(current: StorageDocument, next: StorageDocument): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+
+  for (const profile of next.profiles) {
+    const exists = current.profiles.some((existing) => existing.id === profile.id);
+    const fields = PROFILE_FIELDS.map((field) =>
+      diffField(field, getFieldValue(current.data[profile.id], field), getFieldValue(next.data[profile.id], field))
+    ).filter((change) => change !== null);
+    if (!exists || fields.length > 0) {
+      changes.push({ profileId: profile.id, name: profile.name, status: exists ? 'changed' : 'added', fields });
+    }
+  }
+  for (const profile of current.profiles) {
+    if (!next.profiles.some((kept) => kept.id === profile.id)) {
+      changes.push({ profileId: profile.id, name: profile.name, status: 'removed', fields: [] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Item ids referenced by a document that the item data does not contain.
+ * Custom goals defined in the document itself count as known.
+ */
+export function findUnknownItemIds(document: StorageDocument, itemsMap: ItemsMap): string[] {
+  const unknownIds = new Set<string>();
+
+  for (const data of Object.values(document.data)) {
+    const customGoals = getFieldValue(data, 'customGoals');
+    const referencedIds = [
+      ...getFieldValue(data, 'goalItems'),
+      ...getFieldValue(data, 'disabledItems'),
+      ...Object.keys(getFieldValue(data, 'goalQuantities')),
+      ...Object.keys(getFieldValue(data, 'weaponTiers')),
+      ...Object.keys(getFieldValue(data, 'stashCounts')),
+      ...getFieldValue(data, 'learnedBlueprints'),
+      ...customGoals.flatMap((goal) => Object.keys(goal.materials)),
+    ];
+    for (const itemId of referencedIds) {
+      if (!itemsMap[itemId] && !customGoals.some((goal) => goal.id === itemId)) {
+        unknownIds.add(itemId);
+      }
+    }
+  }
+
+  return Array.from(unknownIds).sort();
+}
@@ -0,0 +1,116 @@
+import type { Item, ItemsMap } from '../types/item';
+import { getWeaponBaseName } from './weaponTiers';
+import type { WeaponTierRange } from './weaponTiers';
+
+// Maps an item to the Blueprint item that unlocks its recipe
+export type BlueprintIndex = Map<string, string>;
+
+export interface BlueprintHunt {
+  blueprintId: string;
+  goalItemIds: string[]; // Goals the blueprint would unlock
+}
+
+const BLUEPRINT_TYPE = 'Blueprint';
+const BLUEPRINT_NAME_SUFFIX = / Blueprint$/;
+const BLUEPRINT_ID_SUFFIX = /_blueprint$/;
+
+export function isBlueprint(item: Item): boolean {
+  return item.type === BLUEPRINT_TYPE;
+}
+
+/**
+ * Matches every Blueprint item to the items it unlocks by id or name:
+ * "Angled Grip II Blueprint" unlocks "Angled Grip II",
+ * "Anvil Blueprint" unlocks all tiers of the Anvil
+ */
+export function buildBlueprintIndex(itemsMap: ItemsMap): BlueprintIndex {
+  const index: BlueprintIndex = new Map();
+  const blueprintsByName = new Map<string, string>();
+  for (const item of Object.values(itemsMap)) {
+    if (!isBlueprint(item)) {
+      continue;
+    }
+    blueprintsByName.set(item.name.en.replace(BLUEPRINT_NAME_SUFFIX, ''), item.id);
+    // Ids are more reliable where the names differ ("Trigger Nade" vs. "Trigger 'Nade")
+    const unlockedId = item.id.replace(BLUEPRINT_ID_SUFFIX, '');
+    if (unlockedId !== item.id && itemsMap[unlockedId]) {
+      index.set(unlockedId, item.id);
+    }
+  }
+
+  for (const item of Object.values(itemsMap)) {
+    if (isBlueprint(item) || index.has(item.id)) {
+      continue;
+    }
+    const blueprintId =
+      blueprintsByName.get(item.name.en) ??
+      (item.isWeapon ? blueprintsByName.get(getWeaponBaseName(item)) : undefined);
+    if (blueprintId) {
+      index.set(item.id, blueprintId);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Returns the blueprint still missing to craft an item, or null if the
+ * recipe is not locked or the blueprint has been learned
+ */
+export function getMissingBlueprint(
+  item: Item,
+  blueprintIndex: BlueprintIndex,
+  learnedBlueprintIds: Set<string>
+): string | null {
+  if (item.blueprintLocked === false) {
+    return null;
+  }
+  const blueprintId = blueprintIndex.get(item.id);
+  if (!blueprintId || learnedBlueprintIds.has(blueprintId)) {
+    return null;
+  }
+  return blueprintId;
+}
+
+/**
+ * Finds the goals that are locked behind a missing blueprint.
+ * Weapons already owned at some tier only need upgrades, which are not locked.
+ */
+export function getLockedGoals(
+  goalItemIds: string[],
+  itemsMap: ItemsMap,
+  weaponTierRanges: Record<string, WeaponTierRange>,
+  blueprintIndex: BlueprintIndex,
+  learnedBlueprintIds: Set<string>
+): Map<string, string> {
+  const lockedGoals = new Map<string, string>(); // goal item id -> blueprint id
+
+  for (const goalItemId of goalItemIds) {
+    const item = itemsMap[goalItemId];
+    if (!item || (weaponTierRanges[goalItemId]?.ownedTier ?? 0) > 0) {
+      continue;
+    }
+    const blueprintId = getMissingBlueprint(item, blueprintIndex, learnedBlueprintIds);
+    if (blueprintId) {
+      lockedGoals.set(goalItemId, blueprintId);
+    }
+  }
+
+  return lockedGoals;
+}
+
+/**
+ * Groups locked goals by the blueprint that would unlock them
+ */
+export function getBlueprintsToHunt(lockedGoals: Map<string, string>): BlueprintHunt[] {
+  const hunts = new Map<string, BlueprintHunt>();
+
+  for (const [goalItemId, blueprintId] of lockedGoals.entries()) {
+    if (!hunts.has(blueprintId)) {
+      hunts.set(blueprintId, { blueprintId, goalItemIds: [] });
+    }
+    hunts.get(blueprintId)!.goalItemIds.push(goalItemId);
+  }
+
+  return Array.from(hunts.values()).sort((a, b) => b.goalItemIds.length - a.goalItemIds.length);
+}
@@ -0,0 +1,57 @@
+import type { CraftingNode, CraftingTree } from './craftingChain';
+import { getOutstandingQuantity } from './craftingChain';
+import { isCustomGoalId } from './customGoals';
+import { isHideoutUpgradeId } from './hideout';
+import { isQuestItemId } from './quests';
+
+export interface BuildStep {
+  itemId: string;
+  quantity: number; // How many to craft, across all goals
+  level: number; // Steps only depend on steps with a lower level
+  goalItemIds: string[];
+}
+
+/**
+ * Lists every item that has to be crafted, merged across all goals and
+ * ordered so each craft comes after the crafts of its ingredients.
+ * Items the stash already covers are left out, like an owned weapon that
+ * only gets upgraded.
+ */
+export function buildCraftQueue(trees: CraftingTree[]): BuildStep[] {
+  const steps = new Map<string, BuildStep>();
+
+  // Returns the level of the node: 0 if none of its ingredients need crafting
+  function traverse(node: CraftingNode, goalItemId: string): number {
+    if (node.children.length === 0) {
+      return -1;
+    }
+
+    const level = 1 + Math.max(-1, ...node.children.map((child) => traverse(child, goalItemId)));
+
+    // Custom goals, workstation upgrades and quests are bundles of materials, not something to craft
+    if (isCustomGoalId(node.itemId) || isHideoutUpgradeId(node.itemId) || isQuestItemId(node.itemId)) {
+      return level;
+    }
+
+    const outstanding = getOutstandingQuantity(node);
+    if (outstanding === 0) {
+      return level;
+    }
+
+    if (!steps.has(node.itemId)) {
+      steps.set(node.itemId, { itemId: node.itemId, quantity: 0, level, goalItemIds: [] });
+    }
+    const step = steps.get(node.itemId)!;
+    step.quantity += outstanding;
+    step.level = Math.max(step.level, level);
+    if (!step.goalItemIds.includes(goalItemId)) {
+      step.goalItemIds.push(goalItemId);
+    }
+
+    return level;
+  }
+
+  trees.forEach((tree) => traverse(tree.root, tree.goalItemId));
+
+  return Array.from(steps.values()).sort((a, b) => a.level - b.level);
+}
@@ -0,0 +1,72 @@
+import type { DataChangelog, DataChangelogEntry, RecipeChange, RemovedItem, ValueChange } from '../types/changelog';
+
+/**
+ * The changes of the item data since the given version was seen
+ */
+export function getUnseenEntries(changelog: DataChangelog, seenVersion: string): DataChangelogEntry[] {
+  if (seenVersion === changelog.version) {
+    return [];
+  }
+  // Entries chain the versions; if the seen one dropped out of the log, everything is new
+  const index = changelog.entries.findIndex((entry) => entry.previousVersion === seenVersion);
+  return index === -1 ? changelog.entries : changelog.entries.slice(index);
+}
+
+export interface RelevantChanges {
+  removed: RemovedItem[];
+  recipeChanges: RecipeChange[];
+  valueChanges: ValueChange[];
+  addedCount: number;
+  otherCount: number; // Changes to items you don't use
+}
+
+/**
+ * Picks the changes to the given items (goals, their materials, the stash).
+ * Several changes to the same item become one, from the first before to the last after.
+ */
+export function getRelevantChanges(entries: DataChangelogEntry[], itemIds: Set<string>): RelevantChanges {
+  const removed = new Map<string, RemovedItem>();
+  const recipeChanges = new Map<string, RecipeChange>();
+  const valueChanges = new Map<string, ValueChange>();
+  let addedCount = 0;
+  let otherCount = 0;
+
+  for (const entry of entries) {
+    addedCount += entry.added.length;
+    for (const item of entry.removed) {
+      if (itemIds.has(item.id)) {
+        removed.set(item.id, item);
+      } else {
+        otherCount += 1;
+      }
+    }
+    for (const change of entry.recipeChanges) {
+      const key = `${change.itemId}:${change.property}`;
+      if (!itemIds.has(change.itemId)) {
+        otherCount += 1;
+      } else {
+        const first = recipeChanges.get(key) || change;
+        recipeChanges.set(key, { ...change, before: first.before });
+      }
+    }
+    for (const change of entry.valueChanges) {
+      if (!itemIds.has(change.itemId)) {
+        otherCount += 1;
+      } else {
+        const first = valueChanges.get(change.itemId) || change;
+        valueChanges.set(change.itemId, { ...change, before: first.before });
+      }
+    }
+  }
+
+  return {
+    removed: Array.from(removed.values()),
+    // Changes that were undone by a later version cancel out
+    recipeChanges: Array.from(recipeChanges.values()).filter(
+      (change) => JSON.stringify(change.before) !== JSON.stringify(change.after)
+    ),
+    valueChanges: Array.from(valueChanges.values()).filter((change) => change.before !== change.after),
+    addedCount,
+    otherCount,
+  };
+}
@@ -1,8 +1,10 @@
-import type { ItemsMap } from '../types/item';
+import type { Item, ItemsMap } from '../types/item';
+import { isQuestItem } from './quests';
 
 export interface CraftingNode {
   itemId: string;
   quantity: number;
+  ownedQuantity?: number; // Part of the quantity already covered by the stash
   children: CraftingNode[];
   salvageableFrom?: { itemId: string; method: 'salvage' | 'recycle' }[]; // Items and their method
 }
@@ -12,24 +14,57 @@ export interface CraftingTree {
   root: CraftingNode;
 }
 
+// 'quest' is a recipe usage where the parent is a quest that asks for the item
+export type UsageRelationship = 'recipe' | 'quest' | 'salvage' | 'recycle';
+
 export interface UsageInfo {
   parentItemId: string;
   quantity: number;
-  relationship: 'recipe' | 'salvage' | 'recycle';
+  relationship: UsageRelationship;
   goalItemIds: string[];
 }
 
 export type ReverseMap = Map<string, UsageInfo[]>;
 
+export interface MaterialTotal {
+  total: number;
+  byGoal: Map<string, number>; // Quantity required per goal item
+}
+
+export type MaterialTotals = Map<string, MaterialTotal>;
+
+/**
+ * Owned amount per item id
+ */
+export type StashCounts = Record<string, number>;
+
+/**
+ * Creates the pool of owned items that crafting trees draw from.
+ * Share one pool between several trees so every owned item is only counted once.
+ */
+export function createStashPool(stashCounts: StashCounts): Map<string, number> {
+  return new Map(Object.entries(stashCounts).filter(([, count]) => count > 0));
+}
+
 /**
  * Builds a crafting tree for a goal item, resolving all recipe dependencies
- * and including salvageable sources
+ * and including salvageable sources. Quantities are multiplied through the
+ * whole chain, starting from the requested amount of the goal item.
+ * Owned items are taken out of the stash pool; only the outstanding part of
+ * a node is expanded, so fully covered subtrees are pruned.
+ * A goal recipe can be passed to replace the goal item's own recipe
+ * (e.g. the upgrade costs between two weapon tiers). goalOwned marks the goal
+ * item itself as owned while its goal recipe is still needed, e.g. a weapon
+ * that is upgraded from an owned tier instead of being crafted.
  */
 export function buildCraftingTree(
   goalItemId: string,
   itemsMap: ItemsMap,
   goalItemIds: string[],
-  stashItemIds: Set<string> = new Set()
+  stashPool: Map<string, number> = new Map(),
+  quantity: number = 1,
+  goalRecipe?: Record<string, number>,
+  goalOwned: boolean = false
 ): CraftingTree {
   const visited = new Set<string>();
   
@@ -40,37 +75,49 @@ export function buildCraftingTree(
       return { itemId, quantity, children: [] };
     }
 
-    // If item is in stash, treat it as a leaf node (we already have it)
-    if (stashItemIds.has(itemId)) {
-      return { itemId, quantity, children: [] };
+    const node: CraftingNode = {
+      itemId,
+      quantity,
+      children: [],
+    };
+
+    // Use what we already have in the stash
+    const available = stashPool.get(itemId) || 0;
+    const owned = Math.min(available, quantity);
+    if (owned > 0) {
+      stashPool.set(itemId, available - owned);
+      node.ownedQuantity = owned;
+    }
+
+    // Fully covered by the stash, nothing left to craft
+    const outstanding = quantity - owned;
+    if (outstanding === 0) {
+      return node;
     }
 
     // Avoid infinite recursion
     const visitKey = `${itemId}-${depth}`;
     if (depth > 10 || visited.has(visitKey)) {
-      return { itemId, quantity, children: [] };
+      return node;
     }
     visited.add(visitKey);
 
-    const node: CraftingNode = {
-      itemId,
-      quantity,
-      children: [],
-    };
-
     // If item has a recipe, expand it
-    if (item.recipe) {
-      for (const [ingredientId, ingredientQty] of Object.entries(item.recipe)) {
-        const totalNeeded = ingredientQty * quantity;
+    const recipe = depth === 0 && goalRecipe ? goalRecipe : item.recipe;
+    if (recipe) {
+      for (const [ingredientId, ingredientQty] of Object.entries(recipe)) {
+        const totalNeeded = ingredientQty * outstanding;
         const childNode = buildNode(ingredientId, totalNeeded, depth + 1);
         node.children.push(childNode);
 
-        // Find salvageable sources for this ingredient
+        // Find salvageable sources for this ingredient, unless the stash covers it
+        if (getOutstandingQuantity(childNode) === 0) {
+          continue;
+        }
         const salvageableSources = findSalvageableSources(
           ingredientId,
           itemsMap,
-          goalItemIds,
-          stashItemIds
+          goalItemIds
         );
         if (salvageableSources.length > 0) {
           childNode.salvageableFrom = salvageableSources;
@@ -81,19 +128,83 @@ export function buildCraftingTree(
     return node;
   }
 
-  const root = buildNode(goalItemId, 1);
+  const root = buildNode(goalItemId, quantity);
+  if (goalOwned) {
+    root.ownedQuantity = quantity;
+  }
   return { goalItemId, root };
 }
 
+/**
+ * Returns the part of a node's quantity that is not covered by the stash
+ */
+export function getOutstandingQuantity(node: CraftingNode): number {
+  return node.quantity - (node.ownedQuantity || 0);
+}
+
+/**
+ * Whether an item may be broken down for materials.
+ * Basic Materials, goal items, weapons and modifications are kept.
+ */
+export function isSalvageCandidate(item: Item, goalItemIds: string[]): boolean {
+  // Skip if this item is a Basic Material
+  if (item.type === 'Basic Material') {
+    return false;
+  }
+
+  // Skip if this item is in the goal items list
+  if (goalItemIds.includes(item.id)) {
+    return false;
+  }
+
+  // Skip weapons and modifications
+  return !item.isWeapon && item.type !== 'Modification';
+}
+
+/**
+ * Check if salvaging an item is safe (doesn't lose materials compared to recycling)
+ * Returns true if:
+ * - Item has only recyclesInto (database inconsistency - treat as salvagesInto)
+ * - Item has salvagesInto but no recyclesInto
+ * - Item has both, but salvage yields >= recycle for all materials
+ */
+export function isSafeSalvage(item: Item): boolean {
+  const { salvagesInto, recyclesInto } = item;
+  
+  // If only recyclesInto exists (no salvagesInto), treat as safe salvage
+  if (recyclesInto && !salvagesInto) {
+    return true;
+  }
+  
+  // If no salvage data at all, not applicable
+  if (!salvagesInto) {
+    return false;
+  }
+  
+  // If no recycle data, salvaging is safe
+  if (!recyclesInto) {
+    return true;
+  }
+  
+  // Check if all recycle materials are present in salvage with >= quantity
+  for (const [materialId, recycleQty] of Object.entries(recyclesInto)) {
+    const salvageQty = salvagesInto[materialId] || 0;
+    if (salvageQty < recycleQty) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
 /**
  * Find items that can be salvaged/recycled to produce the target material
- * Excludes Basic Materials, goal items, weapons, modifications, and stash items
+ * Excludes Basic Materials, goal items, weapons and modifications
  */
 function findSalvageableSources(
   targetMaterialId: string,
   itemsMap: ItemsMap,
-  goalItemIds: string[],
-  stashItemIds: Set<string> = new Set()
+  goalItemIds: string[]
 ): { itemId: string; method: 'salvage' | 'recycle' }[] {
   const sources: { itemId: string; method: 'salvage' | 'recycle' }[] = [];
   
@@ -105,23 +216,7 @@ function findSalvageableSources(
   }
 
   for (const item of Object.values(itemsMap)) {
-    // Skip if this item is a Basic Material
-    if (item.type === 'Basic Material') {
-      continue;
-    }
-
-    // Skip if this item is in the goal items list
-    if (goalItemIds.includes(item.id)) {
-      continue;
-    }
-    
-    // Skip if this item is in the stash
-    if (stashItemIds.has(item.id)) {
-      continue;
-    }
-    
-    // Skip weapons and modifications
-    if (item.isWeapon || item.type === 'Modification') {
+    if (!isSalvageCandidate(item, goalItemIds)) {
       continue;
     }
 
@@ -141,36 +236,44 @@ function findSalvageableSources(
 
 /**
  * Flattens a crafting tree into a list of all required materials
- * with their total quantities
+ * with their total quantities. Only base materials (leaf nodes) are listed,
+ * unless includeIntermediates is set, in which case every ingredient below
+ * the goal item is listed.
  */
-export function flattenCraftingTree(tree: CraftingTree): Map<string, number> {
+export function flattenCraftingTree(
+  tree: CraftingTree,
+  includeIntermediates: boolean = false
+): Map<string, number> {
   const materials = new Map<string, number>();
 
-  function traverse(node: CraftingNode) {
+  function traverse(node: CraftingNode, isRoot: boolean) {
     // If node has no children (leaf node), it's a base material
-    if (node.children.length === 0) {
+    if (node.children.length === 0 || (includeIntermediates && !isRoot)) {
       const current = materials.get(node.itemId) || 0;
       materials.set(node.itemId, current + node.quantity);
     }
 
     // Traverse children
     for (const child of node.children) {
-      traverse(child);
+      traverse(child, false);
     }
   }
 
-  traverse(tree.root);
+  traverse(tree.root, true);
   return materials;
 }
 
 /**
  * Combines multiple crafting trees, aggregating common materials
  */
-export function combineCraftingTrees(trees: CraftingTree[]): Map<string, number> {
+export function combineCraftingTrees(
+  trees: CraftingTree[],
+  includeIntermediates: boolean = false
+): Map<string, number> {
   const combinedMaterials = new Map<string, number>();
 
   for (const tree of trees) {
-    const treeMaterials = flattenCraftingTree(tree);
+    const treeMaterials = flattenCraftingTree(tree, includeIntermediates);
     for (const [itemId, quantity] of treeMaterials.entries()) {
       const current = combinedMaterials.get(itemId) || 0;
       combinedMaterials.set(itemId, current + quantity);
@@ -180,15 +283,76 @@ export function combineCraftingTrees(trees: CraftingTree[]): Map<string, number>
   return combinedMaterials;
 }
 
+/**
+ * Returns the base materials (leaf nodes) still missing after the stash
+ * is used up, summed across all trees
+ */
+export function getOutstandingMaterials(trees: CraftingTree[]): Map<string, number> {
+  const outstanding = new Map<string, number>();
+
+  function traverse(node: CraftingNode) {
+    const missing = getOutstandingQuantity(node);
+    if (node.children.length === 0 && missing > 0) {
+      outstanding.set(node.itemId, (outstanding.get(node.itemId) || 0) + missing);
+    }
+    node.children.forEach(traverse);
+  }
+
+  trees.forEach((tree) => tree.root.children.forEach(traverse));
+  return outstanding;
+}
+
+/**
+ * Returns how many of every ingredient, intermediates as well as base
+ * materials, are still missing after the stash, summed across all trees.
+ * An intermediate and the materials below it are alternatives, so these
+ * counts answer "is this item itself needed", they don't add up.
+ */
+export function getMissingQuantities(trees: CraftingTree[]): Map<string, number> {
+  const missing = new Map<string, number>();
+
+  function traverse(node: CraftingNode) {
+    const outstanding = getOutstandingQuantity(node);
+    if (outstanding > 0) {
+      missing.set(node.itemId, (missing.get(node.itemId) || 0) + outstanding);
+    }
+    node.children.forEach(traverse);
+  }
+
+  trees.forEach((tree) => tree.root.children.forEach(traverse));
+  return missing;
+}
+
+/**
+ * Builds the total required quantity of every ingredient across all goals,
+ * with a breakdown of how much each goal contributes
+ */
+export function buildMaterialTotals(trees: CraftingTree[]): MaterialTotals {
+  const totals: MaterialTotals = new Map();
+
+  for (const tree of trees) {
+    const treeMaterials = flattenCraftingTree(tree, true);
+    for (const [itemId, quantity] of treeMaterials.entries()) {
+      if (!totals.has(itemId)) {
+        totals.set(itemId, { total: 0, byGoal: new Map() });
+      }
+      const materialTotal = totals.get(itemId)!;
+      materialTotal.total += quantity;
+      materialTotal.byGoal.set(
+        tree.goalItemId,
+        (materialTotal.byGoal.get(tree.goalItemId) || 0) + quantity
+      );
+    }
+  }
+
+  return totals;
+}
+
 /**
  * Builds a reverse lookup map showing what each item is used for
  * Maps itemId -> array of usage info (what items use it and how)
  */
-export function buildReverseMap(
-  trees: CraftingTree[],
-  _itemsMap: ItemsMap,
-  stashItemIds: Set<string> = new Set()
-): ReverseMap {
+export function buildReverseMap(trees: CraftingTree[], itemsMap: ItemsMap): ReverseMap {
   const reverseMap: ReverseMap = new Map();
   const itemsUsedInRecipes = new Set<string>(); // Track items used directly in recipes
 
@@ -196,14 +360,9 @@ export function buildReverseMap(
     itemId: string,
     parentItemId: string,
     quantity: number,
-    relationship: 'recipe' | 'salvage' | 'recycle',
+    relationship: UsageRelationship,
     goalItemId: string
   ) {
-    // Skip items in stash
-    if (stashItemIds.has(itemId)) {
-      return;
-    }
-
     if (!reverseMap.has(itemId)) {
       reverseMap.set(itemId, []);
     }
@@ -220,8 +379,10 @@ export function buildReverseMap(
       if (!existing.goalItemIds.includes(goalItemId)) {
         existing.goalItemIds.push(goalItemId);
       }
-      // Update quantity (use max to show worst case)
-      existing.quantity = Math.max(existing.quantity, quantity);
+      // Recipe quantities add up, every use needs its own materials
+      if (relationship === 'recipe' || relationship === 'quest') {
+        existing.quantity += quantity;
+      }
     } else {
       // Add new usage entry
       usages.push({
@@ -249,7 +410,8 @@ export function buildReverseMap(
     function traverse(node: CraftingNode, parentNode?: CraftingNode) {
       // If this node has a parent, record the usage
       if (parentNode) {
-        addUsage(node.itemId, parentNode.itemId, node.quantity, 'recipe', goalItemId);
+        const relationship = isQuestItem(itemsMap[parentNode.itemId]) ? 'quest' : 'recipe';
+        addUsage(node.itemId, parentNode.itemId, node.quantity, relationship, goalItemId);
       }
 
       // Process salvageable sources
@@ -270,32 +432,5 @@ export function buildReverseMap(
     traverse(tree.root);
   });
 
-  // Third pass: remove orphaned items
-  // An item is orphaned if ALL its parent items are stashed (not just in stash, but actually stashed)
-  // AND the item itself is not directly used in any active crafting path
-  let hasChanges = true;
-  while (hasChanges) {
-    hasChanges = false;
-    const itemsToRemove: string[] = [];
-
-    for (const [itemId, usages] of reverseMap.entries()) {
-      // An item should be removed if ALL of its parent items are stashed
-      // This means there's no valid path to any goal item
-      const allParentsStashed = usages.length > 0 && usages.every((usage) => {
-        return stashItemIds.has(usage.parentItemId);
-      });
-
-      if (allParentsStashed) {
-        itemsToRemove.push(itemId);
-        hasChanges = true;
-      }
-    }
-
-    // Remove orphaned items
-    for (const itemId of itemsToRemove) {
-      reverseMap.delete(itemId);
-    }
-  }
-
   return reverseMap;
 }
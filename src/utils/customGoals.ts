@@ -0,0 +1,49 @@
+import type { Item, ItemsMap } from '../types/item';
+
+/**
+ * A user-defined bundle of materials, e.g. a project phase or an expedition.
+ * It becomes a synthetic item whose recipe is the material list, so it is
+ * planned like any other goal.
+ */
+export interface CustomGoal {
+  id: string;
+  name: string;
+  materials: Record<string, number>;
+}
+
+export const CUSTOM_GOAL_TYPE = 'Custom Goal';
+const CUSTOM_GOAL_ID_PREFIX = 'custom:';
+
+export function isCustomGoalId(itemId: string): boolean {
+  return itemId.startsWith(CUSTOM_GOAL_ID_PREFIX);
+}
+
+export function createCustomGoalId(): string {
+  return `${CUSTOM_GOAL_ID_PREFIX}${Date.now().toString(36)}`;
+}
+
+export function toCustomGoalItem(customGoal: CustomGoal): Item {
+  return {
+    id: customGoal.id,
+    name: { en: customGoal.name },
+    description: { en: 'Custom goal' },
+    type: CUSTOM_GOAL_TYPE,
+    rarity: 'Common',
+    recipe: customGoal.materials,
+  };
+}
+
+/**
+ * Returns the items map extended with the custom goals as synthetic items
+ */
+export function withCustomGoals(itemsMap: ItemsMap, customGoals: CustomGoal[]): ItemsMap {
+  if (customGoals.length === 0) {
+    return itemsMap;
+  }
+
+  const extended: ItemsMap = { ...itemsMap };
+  for (const customGoal of customGoals) {
+    extended[customGoal.id] = toCustomGoalItem(customGoal);
+  }
+  return extended;
+}
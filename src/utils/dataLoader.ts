@@ -1,70 +1,9 @@
 import type { Item, ItemsMap } from '../types/item';
-
-/**
- * Consolidates weapon tiers by combining materials from all tiers (I-IV)
- * Returns a new item representing the Tier IV version with consolidated recipe
- */
-function consolidateWeaponTiers(items: Item[]): Item[] {
-  const weaponGroups = new Map<string, Item[]>();
-  const nonWeapons: Item[] = [];
-
-  // Group weapons by base name (without tier suffix)
-  items.forEach((item) => {
-    if (item.isWeapon && item.tier !== undefined) {
-      // Extract base name by removing tier suffix (I, II, III, IV)
-      const baseName = item.name.en.replace(/\s+(I{1,3}|IV)$/, '');
-      if (!weaponGroups.has(baseName)) {
-        weaponGroups.set(baseName, []);
-      }
-      weaponGroups.get(baseName)!.push(item);
-    } else {
-      nonWeapons.push(item);
-    }
-  });
-
-  const consolidatedWeapons: Item[] = [];
-
-  // For each weapon group, create a consolidated Tier IV item
-  weaponGroups.forEach((tiers) => {
-    // Sort by tier
-    tiers.sort((a, b) => (a.tier || 0) - (b.tier || 0));
-
-    // Find Tier IV (or highest tier)
-    const tierIV = tiers.find((t) => t.tier === 4) || tiers[tiers.length - 1];
-
-    if (!tierIV) return;
-
-    // Accumulate all materials from all tiers
-    const consolidatedRecipe: Record<string, number> = {};
-
-    tiers.forEach((tier) => {
-      // Add recipe materials (for Tier I)
-      if (tier.recipe) {
-        Object.entries(tier.recipe).forEach(([materialId, qty]) => {
-          consolidatedRecipe[materialId] = (consolidatedRecipe[materialId] || 0) + qty;
-        });
-      }
-
-      // Add upgrade cost materials (for Tier II-IV)
-      if (tier.upgradeCost) {
-        Object.entries(tier.upgradeCost).forEach(([materialId, qty]) => {
-          consolidatedRecipe[materialId] = (consolidatedRecipe[materialId] || 0) + qty;
-        });
-      }
-    });
-
-    // Create consolidated item based on Tier IV
-    const consolidatedItem: Item = {
-      ...tierIV,
-      recipe: consolidatedRecipe,
-      // Keep Tier IV's other properties
-    };
-
-    consolidatedWeapons.push(consolidatedItem);
-  });
-
-  return [...nonWeapons, ...consolidatedWeapons];
-}
+import type { HideoutModule } from '../types/hideout';
+import type { Quest } from '../types/quest';
+import type { GoalPreset } from '../types/preset';
+import type { DataChangelog } from '../types/changelog';
+import { assignWeaponTiers } from './weaponTiers';
 
 export async function loadAllItems(): Promise<ItemsMap> {
   const response = await fetch('/items.json');
@@ -74,19 +13,106 @@ export async function loadAllItems(): Promise<ItemsMap> {
   
   const items: Item[] = await response.json();
   
-  // Consolidate weapon tiers
-  const consolidatedItems = consolidateWeaponTiers(items);
+  // Weapon tiers stay separate items, upgrade paths are resolved per goal
+  const tieredItems = assignWeaponTiers(items);
   
   const itemsMap: ItemsMap = {};
 
   // Build the map
-  consolidatedItems.forEach((item) => {
+  tieredItems.forEach((item) => {
     itemsMap[item.id] = item;
   });
 
   return itemsMap;
 }
 
+/**
+ * Loads the workstation upgrade costs. The file is optional: older data
+ * exports don't have it, so a missing or unreadable file yields no modules.
+ */
+export async function loadHideoutModules(): Promise<HideoutModule[]> {
+  try {
+    const response = await fetch('/hideout.json');
+    if (!response.ok) {
+      return [];
+    }
+    const modules = await response.json();
+    return Array.isArray(modules) ? modules : [];
+  } catch (error) {
+    console.warn('No hideout data available:', error);
+    return [];
+  }
+}
+
+/**
+ * Loads the quests and the items they ask for. Optional like the hideout data.
+ */
+export async function loadQuests(): Promise<Quest[]> {
+  try {
+    const response = await fetch('/quests.json');
+    if (!response.ok) {
+      return [];
+    }
+    const quests = await response.json();
+    return Array.isArray(quests) ? quests : [];
+  } catch (error) {
+    console.warn('No quest data available:', error);
+    return [];
+  }
+}
+
+/**
+ * Loads what changed between item data versions. Optional: data generated
+ * before the changelog existed has none, then no changes are shown.
+ */
+export async function loadDataChangelog(): Promise<DataChangelog | null> {
+  try {
+    const response = await fetch('/changelog.json');
+    if (!response.ok) {
+      return null;
+    }
+    const changelog = await response.json();
+    return typeof changelog?.version === 'string' && Array.isArray(changelog.entries) ? changelog : null;
+  } catch (error) {
+    console.warn('No data changelog available:', error);
+    return null;
+  }
+}
+
+/**
+ * Loads the bundled goal presets
+ */
+export async function loadPresets(): Promise<GoalPreset[]> {
+  try {
+    const response = await fetch('/presets.json');
+    if (!response.ok) {
+      return [];
+    }
+    const presets = await response.json();
+    return Array.isArray(presets) ? presets : [];
+  } catch (error) {
+    console.warn('No goal presets available:', error);
+    return [];
+  }
+}
+
+/**
+ * Looks up items by id, keeping apart the ids the item data does not contain
+ * (e.g. from an older backup) so they can be reported instead of dropped
+ */
+export function getItemsById(itemIds: string[], itemsMap: ItemsMap): { items: Item[]; unknownIds: string[] } {
+  const items: Item[] = [];
+  const unknownIds: string[] = [];
+  for (const itemId of itemIds) {
+    if (itemsMap[itemId]) {
+      items.push(itemsMap[itemId]);
+    } else {
+      unknownIds.push(itemId);
+    }
+  }
+  return { items, unknownIds };
+}
+
 export function getRarityClass(rarity: string): string {
   return `rarity-${rarity.toLowerCase()}`;
 }
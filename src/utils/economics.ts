@@ -0,0 +1,75 @@
+import type { Item, ItemsMap } from '../types/item';
+
+export interface BreakdownValue {
+  value: number; // Coin value of all outputs
+  premiumValue: number; // Same, with the goal premium applied to needed outputs
+  neededOutputIds: string[];
+}
+
+export type EconomicsOption = 'sell' | 'recycle' | 'salvage';
+
+export interface ItemEconomics {
+  sellValue: number;
+  recycle: BreakdownValue | null;
+  salvage: BreakdownValue | null;
+  bestOption: EconomicsOption;
+  advantage: number; // Best breakdown value (with premium) minus sell value
+}
+
+export const DEFAULT_GOAL_PREMIUM_PERCENT = 50;
+
+function getBreakdownValue(
+  outputs: Record<string, number> | undefined,
+  itemsMap: ItemsMap,
+  neededMaterialIds: Set<string>,
+  goalPremiumPercent: number
+): BreakdownValue | null {
+  if (!outputs || Object.keys(outputs).length === 0) {
+    return null;
+  }
+
+  let value = 0;
+  let premiumValue = 0;
+  const neededOutputIds: string[] = [];
+  for (const [materialId, qty] of Object.entries(outputs)) {
+    const materialValue = (itemsMap[materialId]?.value || 0) * qty;
+    value += materialValue;
+    if (neededMaterialIds.has(materialId)) {
+      premiumValue += materialValue * (1 + goalPremiumPercent / 100);
+      neededOutputIds.push(materialId);
+    } else {
+      premiumValue += materialValue;
+    }
+  }
+
+  return { value, premiumValue: Math.round(premiumValue), neededOutputIds };
+}
+
+/**
+ * Compares the coin value of selling an item with the value of its recycle and
+ * salvage outputs. Outputs needed for goals are valued higher by the goal premium.
+ */
+export function getItemEconomics(
+  item: Item,
+  itemsMap: ItemsMap,
+  neededMaterialIds: Set<string>,
+  goalPremiumPercent: number
+): ItemEconomics {
+  const sellValue = item.value || 0;
+  const recycle = getBreakdownValue(item.recyclesInto, itemsMap, neededMaterialIds, goalPremiumPercent);
+  const salvage = getBreakdownValue(item.salvagesInto, itemsMap, neededMaterialIds, goalPremiumPercent);
+
+  let bestOption: EconomicsOption = 'sell';
+  let bestValue = sellValue;
+  if (recycle && recycle.premiumValue > bestValue) {
+    bestOption = 'recycle';
+    bestValue = recycle.premiumValue;
+  }
+  if (salvage && salvage.premiumValue > bestValue) {
+    bestOption = 'salvage';
+    bestValue = salvage.premiumValue;
+  }
+
+  const bestBreakdown = Math.max(recycle?.premiumValue ?? 0, salvage?.premiumValue ?? 0);
+  return { sellValue, recycle, salvage, bestOption, advantage: bestBreakdown - sellValue };
+}
@@ -0,0 +1,43 @@
+/**
+ * A named set of goals that is shown, collapsed and toggled together.
+ * Which group a goal belongs to is kept separately (goal item id -> group id),
+ * goals keep their position in the overall goal order.
+ */
+export interface GoalGroup {
+  id: string;
+  name: string;
+  collapsed: boolean;
+}
+
+export type GoalGroupMembership = Record<string, string>;
+
+export function createGoalGroupId(): string {
+  return `group-${Date.now().toString(36)}`;
+}
+
+/**
+ * Moves a group up (-1) or down (+1) in the list
+ */
+export function moveGoalGroup(groups: GoalGroup[], groupId: string, offset: number): GoalGroup[] {
+  const index = groups.findIndex((group) => group.id === groupId);
+  const targetIndex = index + offset;
+  if (index === -1 || targetIndex < 0 || targetIndex >= groups.length) {
+    return groups;
+  }
+
+  const reordered = [...groups];
+  reordered.splice(index, 1);
+  reordered.splice(targetIndex, 0, groups[index]);
+  return reordered;
+}
+
+/**
+ * Returns the goals of a group, in goal order
+ */
+export function getGroupGoalIds(
+  groupId: string,
+  goalItemIds: string[],
+  membership: GoalGroupMembership
+): string[] {
+  return goalItemIds.filter((itemId) => membership[itemId] === groupId);
+}
@@ -0,0 +1,74 @@
+import type { Item, ItemsMap } from '../types/item';
+import type { HideoutModule } from '../types/hideout';
+import type { WorkshopLevels } from './workshop';
+import { getLocalizedText, translateAll } from '../i18n';
+import type { Language } from '../i18n';
+
+export const HIDEOUT_UPGRADE_TYPE = 'Hideout Upgrade';
+const HIDEOUT_UPGRADE_ID_PREFIX = 'hideout:';
+
+export function getHideoutUpgradeId(moduleId: string, level: number): string {
+  return `${HIDEOUT_UPGRADE_ID_PREFIX}${moduleId}:${level}`;
+}
+
+export function isHideoutUpgradeId(itemId: string): boolean {
+  return itemId.startsWith(HIDEOUT_UPGRADE_ID_PREFIX);
+}
+
+/**
+ * Sums the costs of all levels above the current one up to the target level
+ */
+export function getUpgradeCost(
+  module: HideoutModule,
+  currentLevel: number,
+  targetLevel: number
+): Record<string, number> {
+  const cost: Record<string, number> = {};
+
+  for (const level of module.levels) {
+    if (level.level <= currentLevel || level.level > targetLevel) {
+      continue;
+    }
+    for (const [itemId, quantity] of Object.entries(level.requirements)) {
+      cost[itemId] = (cost[itemId] || 0) + quantity;
+    }
+  }
+
+  return cost;
+}
+
+/**
+ * Returns the items map extended with one synthetic item per workstation level,
+ * e.g. "Upgrade Gunsmith to level 3". Its recipe is what is still needed
+ * from the current workshop level, so it can be added as a goal like any item.
+ */
+export function withHideoutUpgrades(
+  itemsMap: ItemsMap,
+  modules: HideoutModule[],
+  workshopLevels: WorkshopLevels
+): ItemsMap {
+  if (modules.length === 0) {
+    return itemsMap;
+  }
+
+  const extended: ItemsMap = { ...itemsMap };
+  for (const module of modules) {
+    const currentLevel = workshopLevels[module.id] ?? 0;
+    for (const level of module.levels) {
+      const getParams = (language: Language) => ({
+        module: getLocalizedText(module.name, language),
+        level: level.level,
+      });
+      const item: Item = {
+        id: getHideoutUpgradeId(module.id, level.level),
+        name: translateAll('workshop.upgradeName', getParams),
+        description: translateAll('workshop.upgradeDescription', getParams),
+        type: HIDEOUT_UPGRADE_TYPE,
+        rarity: 'Common',
+        recipe: getUpgradeCost(module, currentLevel, level.level),
+      };
+      extended[item.id] = item;
+    }
+  }
+  return extended;
+}
@@ -0,0 +1,176 @@
+import type { ItemsMap } from '../types/item';
+import type { CraftingNode, CraftingTree, MaterialTotals } from './craftingChain';
+import {
+  getMissingQuantities,
+  getOutstandingMaterials,
+  getOutstandingQuantity,
+  isSalvageCandidate,
+} from './craftingChain';
+import { getLootScore } from './lootScore';
+import type { LootScoreSource } from './lootScore';
+
+export interface LoadoutSettings {
+  slots: number;
+  weightLimit: number; // kg
+}
+
+export const DEFAULT_LOADOUT_SETTINGS: LoadoutSettings = { slots: 16, weightLimit: 40 };
+
+export interface LoadoutPick {
+  itemId: string;
+  quantity: number;
+  slots: number;
+  weightKg: number;
+  source: LootScoreSource;
+  covers: Record<string, number>; // Needed material quantities this pick provides
+  goalItemIds: string[]; // Goals this pick moves forward
+}
+
+export interface Loadout {
+  picks: LoadoutPick[];
+  usedSlots: number;
+  totalWeight: number;
+}
+
+/**
+ * Sums, per intermediate, how many of each ingredient below it are still
+ * missing, so looting the intermediate can be taken off those as well
+ */
+function getMissingIngredients(trees: CraftingTree[]): Map<string, Map<string, number>> {
+  const ingredients = new Map<string, Map<string, number>>();
+
+  function traverse(node: CraftingNode, ancestorIds: string[]) {
+    const missing = getOutstandingQuantity(node);
+    if (missing <= 0) {
+      return;
+    }
+    for (const ancestorId of ancestorIds) {
+      const below = ingredients.get(ancestorId) || new Map<string, number>();
+      below.set(node.itemId, (below.get(node.itemId) || 0) + missing);
+      ingredients.set(ancestorId, below);
+    }
+    node.children.forEach((child) => traverse(child, [...ancestorIds, node.itemId]));
+  }
+
+  trees.forEach((tree) => tree.root.children.forEach((child) => traverse(child, [])));
+  return ingredients;
+}
+
+/**
+ * Proposes what to carry out of a raid within the backpack limits.
+ * Fills one slot at a time with the item covering the most outstanding
+ * requirements per slot, then updates what is still missing.
+ * Needed intermediates can be picked directly, which also takes off the
+ * ingredients they would be crafted from; salvaging and recycling only
+ * count towards base materials, so nothing is counted twice.
+ */
+export function planLoadout(
+  itemsMap: ItemsMap,
+  goalItemIds: string[],
+  materialTotals: MaterialTotals,
+  craftingTrees: CraftingTree[],
+  settings: LoadoutSettings
+): Loadout {
+  const remaining = getMissingQuantities(craftingTrees);
+  const missingAtStart = new Map(remaining);
+  const baseMaterialIds = new Set(getOutstandingMaterials(craftingTrees).keys());
+  const missingIngredients = getMissingIngredients(craftingTrees);
+  const getMissing = (itemId: string) => remaining.get(itemId) || 0;
+  const getMissingMaterial = (itemId: string) => (baseMaterialIds.has(itemId) ? getMissing(itemId) : 0);
+
+  const picks = new Map<string, LoadoutPick>();
+  let usedSlots = 0;
+  let totalWeight = 0;
+
+  const candidates = Object.values(itemsMap).filter(
+    (item) => remaining.has(item.id) || isSalvageCandidate(item, goalItemIds)
+  );
+
+  while (usedSlots < settings.slots) {
+    const weightLeft = settings.weightLimit - totalWeight;
+    let best: { itemId: string; perSlot: number } | null = null;
+
+    for (const item of candidates) {
+      if ((item.weightKg || 0) > weightLeft) {
+        continue;
+      }
+      const score = getLootScore(item, getMissing, getMissingMaterial);
+      if (score.perSlot > 0 && (!best || score.perSlot > best.perSlot)) {
+        best = { itemId: item.id, perSlot: score.perSlot };
+      }
+    }
+
+    if (!best) {
+      break;
+    }
+
+    const item = itemsMap[best.itemId];
+    const score = getLootScore(item, getMissing, getMissingMaterial);
+    const outputs =
+      score.source === 'salvage' ? item.salvagesInto || {} :
+      score.source === 'recycle' ? item.recyclesInto || {} :
+      { [item.id]: 1 };
+    const getMissingOutput = score.source === 'direct' ? getMissing : getMissingMaterial;
+
+    // Fill the slot with as many items as are still useful and fit the weight limit
+    let usefulCount = 0;
+    for (const [materialId, qty] of Object.entries(outputs)) {
+      usefulCount = Math.max(usefulCount, Math.ceil(getMissingOutput(materialId) / qty));
+    }
+    const weightKg = item.weightKg || 0;
+    const maxByWeight = weightKg > 0 ? Math.floor(weightLeft / weightKg) : Infinity;
+    const quantity = Math.max(1, Math.min(item.stackSize || 1, usefulCount, maxByWeight));
+
+    if (!picks.has(item.id)) {
+      picks.set(item.id, {
+        itemId: item.id,
+        quantity: 0,
+        slots: 0,
+        weightKg: 0,
+        source: score.source!,
+        covers: {},
+        goalItemIds: [],
+      });
+    }
+    const pick = picks.get(item.id)!;
+    pick.quantity += quantity;
+    pick.slots += 1;
+    pick.weightKg += weightKg * quantity;
+    usedSlots += 1;
+    totalWeight += weightKg * quantity;
+
+    for (const [materialId, qty] of Object.entries(outputs)) {
+      const missing = getMissingOutput(materialId);
+      const covered = Math.min(qty * quantity, missing);
+      if (covered === 0) {
+        continue;
+      }
+      pick.covers[materialId] = (pick.covers[materialId] || 0) + covered;
+      remaining.set(materialId, missing - covered);
+      // A looted intermediate no longer has to be crafted from its share of the ingredients
+      for (const [ingredientId, ingredientMissing] of missingIngredients.get(materialId) || []) {
+        const saved = Math.round((ingredientMissing * covered) / missingAtStart.get(materialId)!);
+        remaining.set(ingredientId, Math.max(0, getMissing(ingredientId) - saved));
+      }
+      for (const goalItemId of materialTotals.get(materialId)?.byGoal.keys() || []) {
+        if (!pick.goalItemIds.includes(goalItemId)) {
+          pick.goalItemIds.push(goalItemId);
+        }
+      }
+    }
+
+    // Likewise, an intermediate whose base materials are looted only has to be crafted, not looted
+    for (const [intermediateId, ingredients] of missingIngredients) {
+      let stillNeeded = 0;
+      for (const ingredientId of ingredients.keys()) {
+        if (baseMaterialIds.has(ingredientId)) {
+          const share = getMissing(ingredientId) / missingAtStart.get(ingredientId)!;
+          stillNeeded = Math.max(stillNeeded, Math.ceil(missingAtStart.get(intermediateId)! * share));
+        }
+      }
+      remaining.set(intermediateId, Math.min(getMissing(intermediateId), stillNeeded));
+    }
+  }
+
+  return { picks: Array.from(picks.values()), usedSlots, totalWeight };
+}
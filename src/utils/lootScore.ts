@@ -0,0 +1,66 @@
+import type { Item } from '../types/item';
+
+export type LootScoreSource = 'direct' | 'salvage' | 'recycle';
+
+export interface LootScore {
+  coverage: number; // Units of outstanding requirements one item covers
+  source: LootScoreSource | null;
+  perKg: number | null; // null if the weight is unknown
+  perSlot: number; // Coverage of one full inventory slot
+}
+
+export type LootSortMode = 'name' | 'slot' | 'weight';
+
+// Avoids dividing by zero for (almost) weightless items
+const MIN_WEIGHT_KG = 0.1;
+
+/**
+ * Scores how much of the outstanding material requirements an item covers,
+ * either directly (it is needed itself) or through salvaging/recycling it.
+ * getMissing returns how many of an item are still needed itself (intermediates included),
+ * getMissingMaterial how many of a base material its breakdown outputs can still cover.
+ */
+export function getLootScore(
+  item: Item,
+  getMissing: (itemId: string) => number,
+  getMissingMaterial: (itemId: string) => number = getMissing
+): LootScore {
+  const stackSize = item.stackSize || 1;
+  let coverage = 0;
+  let source: LootScoreSource | null = null;
+  let slotCoverage = 0;
+
+  const directMissing = getMissing(item.id);
+  if (directMissing > 0) {
+    coverage = 1;
+    source = 'direct';
+    slotCoverage = Math.min(stackSize, directMissing);
+  } else {
+    const breakdowns: [LootScoreSource, Record<string, number> | undefined][] = [
+      ['salvage', item.salvagesInto],
+      ['recycle', item.recyclesInto],
+    ];
+    for (const [method, outputs] of breakdowns) {
+      let useful = 0;
+      let missingTotal = 0;
+      for (const [materialId, qty] of Object.entries(outputs || {})) {
+        const missing = getMissingMaterial(materialId);
+        useful += Math.min(qty, missing);
+        missingTotal += missing;
+      }
+      if (useful > coverage) {
+        coverage = useful;
+        source = method;
+        // A full stack can't cover more than what is missing in total
+        slotCoverage = Math.min(useful * stackSize, missingTotal);
+      }
+    }
+  }
+
+  const perKg =
+    item.weightKg !== undefined && item.weightKg !== null
+      ? coverage / Math.max(item.weightKg, MIN_WEIGHT_KG)
+      : null;
+
+  return { coverage, source, perKg, perSlot: slotCoverage };
+}
@@ -0,0 +1,100 @@
+import type { ItemsMap } from '../types/item';
+import type { MaterialTotals } from './craftingChain';
+import { isSafeSalvage } from './craftingChain';
+
+export type LootVerdictKind = 'keep' | 'salvage' | 'recycle' | 'sell';
+
+export interface LootVerdict {
+  kind: LootVerdictKind;
+  reasons: string[];
+  neededOutputs: Record<string, number>; // Needed materials the item breaks down into
+  safeSalvage?: boolean;
+  sellValue: number;
+}
+
+/**
+ * Decides what to do with an item found during a raid:
+ * keep it if a goal needs it, break it down if it yields needed materials,
+ * otherwise sell it.
+ * missingQuantities (see getMissingQuantities) decide whether the item itself is
+ * needed; breaking it down only counts base materials (outstandingMaterials), so an
+ * intermediate and its ingredients don't both count.
+ */
+export function getLootVerdict(
+  itemId: string,
+  itemsMap: ItemsMap,
+  goalItemIds: string[],
+  materialTotals: MaterialTotals,
+  missingQuantities: Map<string, number>,
+  outstandingMaterials: Map<string, number>
+): LootVerdict | null {
+  const item = itemsMap[itemId];
+  if (!item) {
+    return null;
+  }
+
+  const getName = (id: string) => itemsMap[id]?.name.en || id;
+  const getMissing = (id: string) => outstandingMaterials.get(id) || 0;
+  const sellValue = item.value || 0;
+  const reasons: string[] = [];
+
+  if (goalItemIds.includes(itemId)) {
+    return { kind: 'keep', reasons: ['It is one of your goals.'], neededOutputs: {}, sellValue };
+  }
+
+  // Needed directly as an ingredient, or as an intermediate that saves crafting it
+  const materialTotal = materialTotals.get(itemId);
+  if (materialTotal) {
+    const missing = missingQuantities.get(itemId) || 0;
+    const goalNames = Array.from(materialTotal.byGoal.keys()).map(getName).join(', ');
+    if (missing > 0 && outstandingMaterials.has(itemId)) {
+      reasons.push(`It is an ingredient: you still need ${missing} for ${goalNames}.`);
+      return { kind: 'keep', reasons, neededOutputs: {}, sellValue };
+    }
+    if (missing > 0) {
+      reasons.push(
+        `It is an intermediate: you still need ${missing} for ${goalNames}, keeping it saves crafting it.`
+      );
+      return { kind: 'keep', reasons, neededOutputs: {}, sellValue };
+    }
+    reasons.push(`It is an ingredient for ${goalNames}, but your stash already covers it.`);
+  }
+
+  // Outputs of breaking it down that are still needed
+  const getNeededOutputs = (outputs?: Record<string, number>) =>
+    Object.fromEntries(
+      Object.entries(outputs || {}).filter(([materialId]) => getMissing(materialId) > 0)
+    );
+  const countOutputs = (outputs: Record<string, number>) =>
+    Object.values(outputs).reduce((sum, qty) => sum + qty, 0);
+  const formatOutputs = (outputs: Record<string, number>) =>
+    Object.entries(outputs)
+      .map(([materialId, qty]) => `${getName(materialId)} ×${qty}`)
+      .join(', ');
+
+  const salvageOutputs = getNeededOutputs(item.salvagesInto);
+  const recycleOutputs = getNeededOutputs(item.recyclesInto);
+  const safeSalvage = isSafeSalvage(item);
+
+  if (item.salvagesInto && countOutputs(salvageOutputs) > 0 &&
+      (safeSalvage || countOutputs(salvageOutputs) >= countOutputs(recycleOutputs))) {
+    reasons.push(`Salvaging yields needed ${formatOutputs(salvageOutputs)}.`);
+    reasons.push(
+      safeSalvage
+        ? 'Salvaging is safe: recycling would not yield more.'
+        : 'Recycling would yield more in total, but not more of what you need.'
+    );
+    return { kind: 'salvage', reasons, neededOutputs: salvageOutputs, safeSalvage, sellValue };
+  }
+
+  if (countOutputs(recycleOutputs) > 0) {
+    reasons.push(`Recycling yields needed ${formatOutputs(recycleOutputs)}.`);
+    if (item.salvagesInto && !safeSalvage) {
+      reasons.push('Salvaging in the raid would lose materials compared to recycling.');
+    }
+    return { kind: 'recycle', reasons, neededOutputs: recycleOutputs, safeSalvage, sellValue };
+  }
+
+  reasons.push(`No current goal needs it or its materials. It is worth ${sellValue} Coins.`);
+  return { kind: 'sell', reasons, neededOutputs: {}, sellValue };
+}
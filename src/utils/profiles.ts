@@ -0,0 +1,15 @@
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+export interface ProfilesState {
+  profiles: Profile[];
+  activeProfileId: string;
+}
+
+export const DEFAULT_PROFILE: Profile = { id: 'default', name: 'Default' };
+
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}`;
+}
@@ -0,0 +1,49 @@
+import type { Item, ItemsMap } from '../types/item';
+import type { Quest } from '../types/quest';
+import { translateAll } from '../i18n';
+
+export const QUEST_TYPE = 'Quest';
+const QUEST_ID_PREFIX = 'quest:';
+
+export function getQuestItemId(questId: string): string {
+  return `${QUEST_ID_PREFIX}${questId}`;
+}
+
+export function isQuestItemId(itemId: string): boolean {
+  return itemId.startsWith(QUEST_ID_PREFIX);
+}
+
+export function isQuestItem(item: Item | undefined): boolean {
+  return item?.type === QUEST_TYPE;
+}
+
+/**
+ * Returns the items map extended with one synthetic item per quest that
+ * asks for items. Its recipe lists the items to hand in, so a quest can be
+ * added as a goal and its items are kept instead of sold.
+ */
+export function withQuests(itemsMap: ItemsMap, quests: Quest[]): ItemsMap {
+  if (quests.length === 0) {
+    return itemsMap;
+  }
+
+  const extended: ItemsMap = { ...itemsMap };
+  for (const quest of quests) {
+    if (Object.keys(quest.requirements).length === 0) {
+      continue;
+    }
+    const { trader } = quest;
+    const item: Item = {
+      id: getQuestItemId(quest.id),
+      name: quest.name,
+      description: trader
+        ? translateAll('quest.descriptionTrader', () => ({ trader }))
+        : translateAll('quest.description'),
+      type: QUEST_TYPE,
+      rarity: 'Common',
+      recipe: quest.requirements,
+    };
+    extended[item.id] = item;
+  }
+  return extended;
+}
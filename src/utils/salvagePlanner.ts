@@ -0,0 +1,135 @@
+import type { ItemsMap } from '../types/item';
+import { isSalvageCandidate } from './craftingChain';
+
+export type SalvageMethod = 'salvage' | 'recycle';
+
+/**
+ * What the planner minimises when choosing between items:
+ * - waste: yield of materials nobody needs
+ * - value: sell value of the items broken down
+ */
+export type SalvageObjective = 'waste' | 'value';
+
+export interface SalvageStep {
+  itemId: string;
+  method: SalvageMethod;
+  count: number;
+  covers: Record<string, number>; // Needed material quantities this step provides
+}
+
+export interface SalvagePlan {
+  steps: SalvageStep[];
+  uncovered: Map<string, number>; // Materials no candidate item can provide
+  wastedYield: number;
+  sellValueLost: number;
+}
+
+interface SalvageOption {
+  itemId: string;
+  method: SalvageMethod;
+  yields: Record<string, number>;
+  value: number;
+}
+
+// Safety net against endless planning loops
+const MAX_ITERATIONS = 1000;
+
+/**
+ * Proposes a mix of items to salvage or recycle that covers the outstanding materials.
+ * Greedy: repeatedly picks the item whose useful yield is highest relative to
+ * its cost (wasted yield or sell value), until nothing left can be covered.
+ */
+export function planSalvage(
+  outstanding: Map<string, number>,
+  itemsMap: ItemsMap,
+  goalItemIds: string[],
+  objective: SalvageObjective = 'waste'
+): SalvagePlan {
+  const remaining = new Map(outstanding);
+  const steps = new Map<string, SalvageStep>();
+  let wastedYield = 0;
+  let sellValueLost = 0;
+
+  // Collect every way of breaking down a candidate item
+  const options: SalvageOption[] = [];
+  for (const item of Object.values(itemsMap)) {
+    if (!isSalvageCandidate(item, goalItemIds)) {
+      continue;
+    }
+    if (item.salvagesInto) {
+      options.push({ itemId: item.id, method: 'salvage', yields: item.salvagesInto, value: item.value || 0 });
+    }
+    if (item.recyclesInto) {
+      options.push({ itemId: item.id, method: 'recycle', yields: item.recyclesInto, value: item.value || 0 });
+    }
+  }
+
+  const getUsefulYield = (option: SalvageOption) =>
+    Object.entries(option.yields).reduce(
+      (total, [materialId, qty]) => total + Math.min(qty, remaining.get(materialId) || 0),
+      0
+    );
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let best: { option: SalvageOption; useful: number; score: number } | null = null;
+
+    for (const option of options) {
+      const useful = getUsefulYield(option);
+      if (useful === 0) {
+        continue;
+      }
+      const totalYield = Object.values(option.yields).reduce((sum, qty) => sum + qty, 0);
+      const cost = objective === 'waste' ? totalYield - useful : option.value;
+      // +1 keeps free options comparable and favours larger useful yields
+      const score = useful / (cost + 1);
+      if (!best || score > best.score || (score === best.score && useful > best.useful)) {
+        best = { option, useful, score };
+      }
+    }
+
+    if (!best) {
+      break;
+    }
+
+    // Apply the option as often as it stays fully useful, at least once
+    const { option } = best;
+    let count = Infinity;
+    for (const [materialId, qty] of Object.entries(option.yields)) {
+      const missing = remaining.get(materialId) || 0;
+      if (missing > 0) {
+        count = Math.min(count, Math.floor(missing / qty));
+      }
+    }
+    count = Math.max(1, count);
+
+    const key = `${option.itemId}-${option.method}`;
+    if (!steps.has(key)) {
+      steps.set(key, { itemId: option.itemId, method: option.method, count: 0, covers: {} });
+    }
+    const step = steps.get(key)!;
+    step.count += count;
+    sellValueLost += option.value * count;
+
+    for (const [materialId, qty] of Object.entries(option.yields)) {
+      const produced = qty * count;
+      const missing = remaining.get(materialId) || 0;
+      const used = Math.min(produced, missing);
+      wastedYield += produced - used;
+      if (used > 0) {
+        step.covers[materialId] = (step.covers[materialId] || 0) + used;
+        if (missing - used > 0) {
+          remaining.set(materialId, missing - used);
+        } else {
+          remaining.delete(materialId);
+        }
+      }
+    }
+  }
+
+  return {
+    steps: Array.from(steps.values()).sort((a, b) => b.count - a.count),
+    uncovered: remaining,
+    wastedYield,
+    sellValueLost,
+  };
+}
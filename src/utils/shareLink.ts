@@ -0,0 +1,88 @@
+import type { WeaponTierRange } from './weaponTiers';
+import type { CustomGoal } from './customGoals';
+import { PROFILE_SCHEMA } from './storageSchema';
+
+/**
+ * The part of a profile that goes into a share link
+ */
+export interface SharedPlan {
+  name: string;
+  goalItems: string[];
+  goalQuantities: Record<string, number>;
+  weaponTiers: Record<string, WeaponTierRange>;
+  stashCounts: Record<string, number>;
+  customGoals: CustomGoal[]; // Only the ones that are goals
+}
+
+const SHARED_FIELDS = ['goalItems', 'goalQuantities', 'weaponTiers', 'stashCounts', 'customGoals'] as const;
+
+// URL fragment parameter, e.g. #share=1.<data>. Fragments never reach the server.
+const SHARE_PARAM = 'share';
+const SHARE_FORMAT_VERSION = '1';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+export async function encodeSharedPlan(plan: SharedPlan): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(plan));
+  const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+  return `${SHARE_FORMAT_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Reads a shared plan back, checking every part like stored settings.
+ * Throws if the link is damaged or from an unknown format.
+ */
+export async function decodeSharedPlan(payload: string): Promise<SharedPlan> {
+  const [version, data] = payload.split('.');
+  if (version !== SHARE_FORMAT_VERSION || !data) {
+    throw new Error('Unknown share link format.');
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    const json = await pipeBytes(fromBase64Url(data), new DecompressionStream('deflate-raw'));
+    raw = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The share link is damaged or incomplete.');
+  }
+
+  const plan: Record<string, unknown> = { name: typeof raw.name === 'string' ? raw.name : 'Shared plan' };
+  for (const field of SHARED_FIELDS) {
+    const value = raw[field] === undefined ? PROFILE_SCHEMA[field].defaultValue : PROFILE_SCHEMA[field].parse(raw[field]);
+    if (value === undefined) {
+      throw new Error(`The share link contains an invalid ${PROFILE_SCHEMA[field].label.toLowerCase()} entry.`);
+    }
+    plan[field] = value;
+  }
+  return plan as unknown as SharedPlan;
+}
+
+export async function createShareUrl(plan: SharedPlan): Promise<string> {
+  const { origin, pathname, search } = window.location;
+  const params = new URLSearchParams({ [SHARE_PARAM]: await encodeSharedPlan(plan) });
+  return `${origin}${pathname}${search}#${params}`;
+}
+
+/**
+ * The shared plan in a URL fragment, or null if the fragment holds none
+ */
+export async function readSharedPlan(hash: string): Promise<SharedPlan | null> {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  return payload ? decodeSharedPlan(payload) : null;
+}
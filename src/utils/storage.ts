@@ -1,41 +1,367 @@
-const GOAL_ITEMS_KEY = 'what-to-loot-goal-items';
-const DISABLED_ITEMS_KEY = 'what-to-loot-disabled-items';
-const STASH_ITEMS_KEY = 'what-to-loot-stash-items';
+import type { WeaponTierRange } from './weaponTiers';
+import type { LootSortMode } from './lootScore';
+import type { LoadoutSettings } from './loadoutPlanner';
+import type { WorkshopLevels } from './workshop';
+import type { CustomGoal } from './customGoals';
+import type { GoalGroup, GoalGroupMembership } from './goalGroups';
+import { DEFAULT_LANGUAGE } from '../i18n';
+import type { Language } from '../i18n';
+import { DEFAULT_PROFILE } from './profiles';
+import type { ProfilesState } from './profiles';
+import {
+  PROFILE_FIELDS,
+  PROFILE_SCHEMA,
+  createEmptyDocument,
+  createQuarantineEntry,
+  parseDocument,
+} from './storageSchema';
+import type { ProfileData, ProfileField, QuarantineEntry, StorageDocument } from './storageSchema';
+import { getChangedFields, mergeDocumentChanges } from './sync';
 
-export function loadGoalItems(): string[] {
+const KEY_PREFIX = 'what-to-loot-';
+const DOCUMENT_KEY = 'what-to-loot-data';
+const QUARANTINE_KEY = 'what-to-loot-quarantine';
+const LEGACY_PROFILES_KEY = 'what-to-loot-profiles';
+
+// Keeps the quarantine from filling up the storage quota
+const MAX_QUARANTINE_ENTRIES = 20;
+
+let cachedDocument: StorageDocument | null = null;
+// The stored document as this tab last read or wrote it, the base for merging changes from other tabs
+let syncedJson: string | null = null;
+let syncedDocument: StorageDocument | null = null;
+
+type StorageChangeListener = (changedFields: ProfileField[]) => void;
+const changeListeners = new Set<StorageChangeListener>();
+
+/**
+ * Collects the layout used before the document existed (one key per setting,
+ * optionally suffixed with a profile id) into a version 1 document.
+ */
+function readLegacyDocument(quarantined: QuarantineEntry[]): { document: StorageDocument; keys: string[] } | null {
+  const keys = Object.keys(localStorage).filter(
+    (key) => key.startsWith(KEY_PREFIX) && key !== DOCUMENT_KEY && key !== QUARANTINE_KEY
+  );
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const readKey = (key: string): unknown => {
+    const stored = localStorage.getItem(key);
+    if (stored === null) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(stored);
+    } catch {
+      quarantined.push(createQuarantineEntry(key, 'Unreadable JSON', stored));
+      return undefined;
+    }
+  };
+
+  const legacyProfiles = readKey(LEGACY_PROFILES_KEY) as Partial<ProfilesState> | undefined;
+  const profiles = Array.isArray(legacyProfiles?.profiles) ? legacyProfiles.profiles : [DEFAULT_PROFILE];
+  const data: Record<string, Partial<ProfileData>> = {};
+  for (const profileId of profiles.map((profile) => profile?.id).filter((id) => typeof id === 'string')) {
+    const profileData: Record<string, unknown> = {};
+    for (const field of PROFILE_FIELDS) {
+      const legacyKey = KEY_PREFIX + PROFILE_SCHEMA[field].legacyKey;
+      let value = readKey(`${legacyKey}:${profileId}`);
+      // Settings saved before profiles existed belong to the default profile
+      if (value === undefined && profileId === DEFAULT_PROFILE.id) {
+        value = readKey(legacyKey);
+      }
+      if (value !== undefined) {
+        profileData[field] = value;
+      }
+    }
+    data[profileId] = profileData;
+  }
+
+  return {
+    document: {
+      version: 1,
+      profiles,
+      activeProfileId: legacyProfiles?.activeProfileId || DEFAULT_PROFILE.id,
+      data,
+    },
+    keys,
+  };
+}
+
+function writeDocument(document: StorageDocument): boolean {
   try {
-    const stored = localStorage.getItem(GOAL_ITEMS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    const json = JSON.stringify(document);
+    localStorage.setItem(DOCUMENT_KEY, json);
+    syncedJson = json;
+    syncedDocument = structuredClone(document);
+    return true;
   } catch (error) {
-    console.error('Failed to load goal items from localStorage:', error);
-    return [];
+    console.error('Failed to save data to localStorage:', error);
+    return false;
   }
 }
 
-export function saveGoalItems(itemIds: string[]): void {
+function quarantine(entries: QuarantineEntry[]): void {
+  console.error('Saved data could not be read and was moved to quarantine:', entries);
   try {
-    localStorage.setItem(GOAL_ITEMS_KEY, JSON.stringify(itemIds));
+    const combined = [...loadQuarantine(), ...entries].slice(-MAX_QUARANTINE_ENTRIES);
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(combined));
   } catch (error) {
-    console.error('Failed to save goal items to localStorage:', error);
+    console.error('Failed to save quarantined data to localStorage:', error);
   }
 }
 
-export function loadDisabledItems(): Set<string> {
+/**
+ * Reads the persisted document, migrating older layouts and quarantining
+ * anything that can't be read before it would be overwritten.
+ */
+function loadDocument(): StorageDocument {
+  const quarantined: QuarantineEntry[] = [];
+  let raw: unknown = null;
+  let legacyKeys: string[] = [];
+
   try {
-    const stored = localStorage.getItem(DISABLED_ITEMS_KEY);
-    return stored ? new Set(JSON.parse(stored)) : new Set();
+    const stored = localStorage.getItem(DOCUMENT_KEY);
+    if (stored) {
+      try {
+        raw = JSON.parse(stored);
+      } catch {
+        quarantined.push(createQuarantineEntry(DOCUMENT_KEY, 'Unreadable JSON', stored));
+      }
+    } else {
+      const legacy = readLegacyDocument(quarantined);
+      raw = legacy?.document || null;
+      legacyKeys = legacy?.keys || [];
+    }
   } catch (error) {
-    console.error('Failed to load disabled items from localStorage:', error);
-    return new Set();
+    console.error('Failed to load data from localStorage:', error);
+    return createEmptyDocument();
+  }
+
+  let document = createEmptyDocument();
+  if (raw !== null) {
+    const parsed = parseDocument(raw);
+    document = parsed.document;
+    quarantined.push(...parsed.quarantined);
+  }
+  if (quarantined.length > 0) {
+    quarantine(quarantined);
   }
+
+  const changed = raw === null || quarantined.length > 0 || document.version !== (raw as StorageDocument).version;
+  if (changed) {
+    if (writeDocument(document)) {
+      for (const key of legacyKeys) {
+        localStorage.removeItem(key);
+      }
+    }
+  } else {
+    syncedJson = localStorage.getItem(DOCUMENT_KEY);
+    syncedDocument = structuredClone(document);
+  }
+  return document;
 }
 
-export function saveDisabledItems(disabledIds: Set<string>): void {
+function getDocument(): StorageDocument {
+  if (!cachedDocument) {
+    cachedDocument = loadDocument();
+  }
+  return cachedDocument;
+}
+
+/**
+ * Merges in what other tabs or windows saved since this tab last read or
+ * wrote the document, and tells the listeners what changed.
+ */
+function mergeStoredChanges(): void {
+  const current = getDocument();
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(DOCUMENT_KEY);
+  } catch (error) {
+    console.error('Failed to load data from localStorage:', error);
+    return;
+  }
+  if (stored === null || stored === syncedJson || !syncedDocument) {
+    return;
+  }
+
+  let theirs: StorageDocument;
   try {
-    localStorage.setItem(DISABLED_ITEMS_KEY, JSON.stringify(Array.from(disabledIds)));
+    const parsed = parseDocument(JSON.parse(stored));
+    // Never take over a document that needed repairs; our next save replaces it
+    if (parsed.quarantined.length > 0) {
+      console.error('Ignoring unreadable data saved by another tab:', parsed.quarantined);
+      return;
+    }
+    theirs = parsed.document;
   } catch (error) {
-    console.error('Failed to save disabled items to localStorage:', error);
+    console.error('Ignoring unreadable data saved by another tab:', error);
+    return;
+  }
+
+  cachedDocument = mergeDocumentChanges(syncedDocument, current, theirs);
+  syncedJson = stored;
+  syncedDocument = theirs;
+  const changedFields = getChangedFields(current, cachedDocument);
+  for (const listener of changeListeners) {
+    listener(changedFields);
+  }
+}
+
+/**
+ * Saves the cached document without losing what other tabs saved in the meantime
+ */
+function saveDocument(): void {
+  mergeStoredChanges();
+  writeDocument(getDocument());
+}
+
+function handleStorageEvent(e: StorageEvent): void {
+  // The key is null when the whole storage was cleared
+  if (e.key === DOCUMENT_KEY || e.key === null) {
+    mergeStoredChanges();
+  }
+}
+
+/**
+ * Calls the listener with the changed settings of the active profile whenever
+ * another tab or window saved something. Returns a function to stop listening.
+ */
+export function subscribeToStorageChanges(listener: StorageChangeListener): () => void {
+  if (changeListeners.size === 0) {
+    window.addEventListener('storage', handleStorageEvent);
   }
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+    if (changeListeners.size === 0) {
+      window.removeEventListener('storage', handleStorageEvent);
+    }
+  };
+}
+
+/**
+ * The whole persisted document, e.g. for a backup
+ */
+export function loadStorageDocument(): StorageDocument {
+  return structuredClone(getDocument());
+}
+
+/**
+ * Replaces everything that is stored, e.g. when restoring a backup
+ */
+export function saveStorageDocument(document: StorageDocument): void {
+  cachedDocument = structuredClone(document);
+  writeDocument(cachedDocument);
+}
+
+export function loadQuarantine(): QuarantineEntry[] {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load quarantined data from localStorage:', error);
+    return [];
+  }
+}
+
+export function clearQuarantine(): void {
+  try {
+    localStorage.removeItem(QUARANTINE_KEY);
+  } catch (error) {
+    console.error('Failed to clear quarantined data from localStorage:', error);
+  }
+}
+
+// Values are copied so callers can't change the cached document by accident
+function loadField<K extends ProfileField>(field: K): ProfileData[K] {
+  const document = getDocument();
+  const value = document.data[document.activeProfileId]?.[field];
+  return structuredClone(value !== undefined ? value : PROFILE_SCHEMA[field].defaultValue) as ProfileData[K];
+}
+
+function saveField<K extends ProfileField>(field: K, value: ProfileData[K]): void {
+  const document = getDocument();
+  document.data[document.activeProfileId] = {
+    ...document.data[document.activeProfileId],
+    [field]: structuredClone(value),
+  };
+  saveDocument();
+}
+
+export function loadProfiles(): ProfilesState {
+  const { profiles, activeProfileId } = getDocument();
+  return { profiles: [...profiles], activeProfileId };
+}
+
+export function saveProfiles(state: ProfilesState): void {
+  const document = getDocument();
+  document.profiles = state.profiles;
+  document.activeProfileId = state.activeProfileId;
+  saveDocument();
+}
+
+/**
+ * Switches which profile all load and save functions below read and write
+ */
+export function setActiveProfile(profileId: string): void {
+  getDocument().activeProfileId = profileId;
+}
+
+export function copyProfileData(fromProfileId: string, toProfileId: string): void {
+  const document = getDocument();
+  document.data[toProfileId] = structuredClone(document.data[fromProfileId] || {});
+  saveDocument();
+}
+
+export function loadProfileData(profileId: string): Partial<ProfileData> {
+  return structuredClone(getDocument().data[profileId] || {});
+}
+
+export function saveProfileData(profileId: string, data: Partial<ProfileData>): void {
+  const document = getDocument();
+  document.data[profileId] = structuredClone(data);
+  saveDocument();
+}
+
+export function deleteProfileData(profileId: string): void {
+  const document = getDocument();
+  delete document.data[profileId];
+  saveDocument();
+}
+
+export function loadGoalItems(): string[] {
+  return loadField('goalItems');
+}
+
+export function saveGoalItems(itemIds: string[]): void {
+  saveField('goalItems', itemIds);
+}
+
+export function loadGoalQuantities(): Record<string, number> {
+  return loadField('goalQuantities');
+}
+
+export function saveGoalQuantities(quantities: Record<string, number>): void {
+  saveField('goalQuantities', quantities);
+}
+
+export function loadWeaponTierRanges(): Record<string, WeaponTierRange> {
+  return loadField('weaponTiers');
+}
+
+export function saveWeaponTierRanges(tierRanges: Record<string, WeaponTierRange>): void {
+  saveField('weaponTiers', tierRanges);
+}
+
+export function loadDisabledItems(): Set<string> {
+  return new Set(loadField('disabledItems'));
+}
+
+export function saveDisabledItems(disabledIds: Set<string>): void {
+  saveField('disabledItems', Array.from(disabledIds));
 }
 
 export function addGoalItem(itemId: string): string[] {
@@ -54,60 +380,126 @@ export function removeGoalItem(itemId: string): string[] {
   return filtered;
 }
 
-const ENABLED_TYPES_KEY = 'what-to-loot-enabled-types';
-
 export function loadEnabledTypes(): Set<string> | null {
-  try {
-    const stored = localStorage.getItem(ENABLED_TYPES_KEY);
-    return stored ? new Set(JSON.parse(stored)) : null;
-  } catch (error) {
-    console.error('Failed to load enabled types from localStorage:', error);
-    return null;
-  }
+  const enabledTypes = loadField('enabledTypes');
+  return enabledTypes ? new Set(enabledTypes) : null;
 }
 
 export function saveEnabledTypes(enabledTypes: Set<string>): void {
-  try {
-    localStorage.setItem(ENABLED_TYPES_KEY, JSON.stringify(Array.from(enabledTypes)));
-  } catch (error) {
-    console.error('Failed to save enabled types to localStorage:', error);
-  }
+  saveField('enabledTypes', Array.from(enabledTypes));
 }
 
-const ENABLED_RARITIES_KEY = 'what-to-loot-enabled-rarities';
-
 export function loadEnabledRarities(): Set<string> | null {
-  try {
-    const stored = localStorage.getItem(ENABLED_RARITIES_KEY);
-    return stored ? new Set(JSON.parse(stored)) : null;
-  } catch (error) {
-    console.error('Failed to load enabled rarities from localStorage:', error);
-    return null;
-  }
+  const enabledRarities = loadField('enabledRarities');
+  return enabledRarities ? new Set(enabledRarities) : null;
 }
 
 export function saveEnabledRarities(enabledRarities: Set<string>): void {
-  try {
-    localStorage.setItem(ENABLED_RARITIES_KEY, JSON.stringify(Array.from(enabledRarities)));
-  } catch (error) {
-    console.error('Failed to save enabled rarities to localStorage:', error);
-  }
+  saveField('enabledRarities', Array.from(enabledRarities));
 }
 
-export function loadStashItems(): Set<string> {
-  try {
-    const stored = localStorage.getItem(STASH_ITEMS_KEY);
-    return stored ? new Set(JSON.parse(stored)) : new Set();
-  } catch (error) {
-    console.error('Failed to load stash items from localStorage:', error);
-    return new Set();
-  }
+export function loadSortMode(): LootSortMode {
+  return loadField('sortMode');
 }
 
-export function saveStashItems(stashIds: Set<string>): void {
-  try {
-    localStorage.setItem(STASH_ITEMS_KEY, JSON.stringify(Array.from(stashIds)));
-  } catch (error) {
-    console.error('Failed to save stash items to localStorage:', error);
-  }
+export function saveSortMode(sortMode: LootSortMode): void {
+  saveField('sortMode', sortMode);
+}
+
+export function loadHideUnscored(): boolean {
+  return loadField('hideUnscored');
+}
+
+export function saveHideUnscored(hideUnscored: boolean): void {
+  saveField('hideUnscored', hideUnscored);
+}
+
+export function loadLoadoutSettings(): LoadoutSettings {
+  return loadField('loadoutSettings');
+}
+
+export function saveLoadoutSettings(settings: LoadoutSettings): void {
+  saveField('loadoutSettings', settings);
+}
+
+export function loadGoalPremium(): number {
+  return loadField('goalPremium');
+}
+
+export function saveGoalPremium(percent: number): void {
+  saveField('goalPremium', percent);
+}
+
+export function loadWorkshopLevels(): WorkshopLevels {
+  return loadField('workshopLevels');
+}
+
+export function saveWorkshopLevels(levels: WorkshopLevels): void {
+  saveField('workshopLevels', levels);
+}
+
+export function loadCompletedBuildSteps(): Set<string> {
+  return new Set(loadField('buildPlanDone'));
+}
+
+export function saveCompletedBuildSteps(completedIds: Set<string>): void {
+  saveField('buildPlanDone', Array.from(completedIds));
+}
+
+export function loadStashCounts(): Record<string, number> {
+  return loadField('stashCounts');
+}
+
+export function saveStashCounts(stashCounts: Record<string, number>): void {
+  saveField('stashCounts', stashCounts);
+}
+
+export function loadLearnedBlueprints(): Set<string> {
+  return new Set(loadField('learnedBlueprints'));
+}
+
+export function saveLearnedBlueprints(blueprintIds: Set<string>): void {
+  saveField('learnedBlueprints', Array.from(blueprintIds));
+}
+
+export function loadCustomGoals(): CustomGoal[] {
+  return loadField('customGoals');
+}
+
+export function saveCustomGoals(customGoals: CustomGoal[]): void {
+  saveField('customGoals', customGoals);
+}
+
+export function loadGoalGroups(): GoalGroup[] {
+  return loadField('goalGroups');
+}
+
+export function saveGoalGroups(groups: GoalGroup[]): void {
+  saveField('goalGroups', groups);
+}
+
+export function loadGoalGroupMembership(): GoalGroupMembership {
+  return loadField('goalGroupMembership');
+}
+
+export function saveGoalGroupMembership(membership: GoalGroupMembership): void {
+  saveField('goalGroupMembership', membership);
+}
+
+export function loadSeenDataVersion(): string | null {
+  return loadField('seenDataVersion');
+}
+
+export function saveSeenDataVersion(version: string): void {
+  saveField('seenDataVersion', version);
+}
+
+// The language belongs to the browser rather than a profile, so it stays when switching profiles
+export function loadLanguage(): Language {
+  return getDocument().language ?? DEFAULT_LANGUAGE;
+}
+
+export function saveLanguage(language: Language): void {
+  getDocument().language = language;
+  saveDocument();
 }
@@ -0,0 +1,429 @@
+import type { WeaponTierRange } from './weaponTiers';
+import type { LootSortMode } from './lootScore';
+import { DEFAULT_LOADOUT_SETTINGS } from './loadoutPlanner';
+import type { LoadoutSettings } from './loadoutPlanner';
+import { DEFAULT_GOAL_PREMIUM_PERCENT } from './economics';
+import type { WorkshopLevels } from './workshop';
+import type { CustomGoal } from './customGoals';
+import type { GoalGroup, GoalGroupMembership } from './goalGroups';
+import { DEFAULT_PROFILE } from './profiles';
+import type { Profile } from './profiles';
+import { isLanguage } from '../i18n';
+import type { Language } from '../i18n';
+
+/**
+ * Everything saved for one profile
+ */
+export interface ProfileData {
+  goalItems: string[];
+  goalQuantities: Record<string, number>;
+  weaponTiers: Record<string, WeaponTierRange>;
+  disabledItems: string[];
+  stashCounts: Record<string, number>;
+  enabledTypes: string[] | null; // null: all types
+  enabledRarities: string[] | null; // null: all rarities
+  sortMode: LootSortMode;
+  hideUnscored: boolean;
+  loadoutSettings: LoadoutSettings;
+  goalPremium: number;
+  workshopLevels: WorkshopLevels;
+  buildPlanDone: string[];
+  learnedBlueprints: string[];
+  customGoals: CustomGoal[];
+  goalGroups: GoalGroup[];
+  goalGroupMembership: GoalGroupMembership;
+  seenDataVersion: string | null; // Item data version the changes were last shown for
+}
+
+export type ProfileField = keyof ProfileData;
+
+/**
+ * The single persisted document. Settings that were never changed are
+ * left out of a profile's data and fall back to their defaults.
+ */
+export interface StorageDocument {
+  version: number;
+  profiles: Profile[];
+  activeProfileId: string;
+  language?: Language; // UI language of this browser, shared by all profiles
+  data: Record<string, Partial<ProfileData>>;
+}
+
+/**
+ * Stored data that could not be read, kept aside instead of being overwritten
+ */
+export interface QuarantineEntry {
+  quarantinedAt: string; // ISO date
+  source: string; // Storage key or document path the value came from
+  reason: string;
+  value: unknown;
+}
+
+export const CURRENT_VERSION = 3;
+
+export function createEmptyDocument(): StorageDocument {
+  return {
+    version: CURRENT_VERSION,
+    profiles: [DEFAULT_PROFILE],
+    activeProfileId: DEFAULT_PROFILE.id,
+    data: { [DEFAULT_PROFILE.id]: {} },
+  };
+}
+
+export function createQuarantineEntry(source: string, reason: string, value: unknown): QuarantineEntry {
+  return { quarantinedAt: new Date().toISOString(), source, reason, value };
+}
+
+// Runtime checks for values read back from storage
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+function isRecordOf<T>(value: unknown, isEntry: (entry: unknown) => entry is T): value is Record<string, T> {
+  return isRecord(value) && Object.values(value).every(isEntry);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isWeaponTierRange(value: unknown): value is WeaponTierRange {
+  return isRecord(value) && isNumber(value.ownedTier) && isNumber(value.targetTier);
+}
+
+function isCustomGoal(value: unknown): value is CustomGoal {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.name) &&
+    isRecordOf(value.materials, isNumber)
+  );
+}
+
+function isGoalGroup(value: unknown): value is GoalGroup {
+  return isRecord(value) && isString(value.id) && isString(value.name) && typeof value.collapsed === 'boolean';
+}
+
+function isProfile(value: unknown): value is Profile {
+  return isRecord(value) && isString(value.id) && isString(value.name);
+}
+
+const SORT_MODES: LootSortMode[] = ['name', 'slot', 'weight'];
+
+/**
+ * How two versions of a setting are combined:
+ * - list: union of ids
+ * - record: entries of both, the other side wins per key
+ * - byId: union of objects by their id, the other side wins per id
+ * - value: the other side replaces it
+ * Changes from other tabs are merged entry by entry as well (see sync.ts).
+ */
+export type MergeKind = 'list' | 'record' | 'byId' | 'value';
+
+/**
+ * A setting as entries that can be compared and combined one by one
+ */
+export function toMergeEntries(kind: MergeKind, value: unknown): Map<string, unknown> {
+  switch (kind) {
+    case 'list':
+      return new Map((value as string[]).map((id) => [id, true]));
+    case 'record':
+      return new Map(Object.entries(value as Record<string, unknown>));
+    case 'byId':
+      return new Map((value as { id: string }[]).map((entry) => [entry.id, entry]));
+    case 'value':
+      return new Map([['value', value]]);
+  }
+}
+
+export function fromMergeEntries(kind: MergeKind, entries: Map<string, unknown>): unknown {
+  switch (kind) {
+    case 'list':
+      return Array.from(entries.keys());
+    case 'record':
+      return Object.fromEntries(entries);
+    case 'byId':
+      return Array.from(entries.values());
+    case 'value':
+      return entries.get('value');
+  }
+}
+
+interface FieldSchema<T> {
+  label: string;
+  merge: MergeKind;
+  defaultValue: T;
+  legacyKey: string; // Storage key the value had before the document existed
+  // Returns the value in its current shape, or undefined if it is not valid
+  parse: (value: unknown) => T | undefined;
+}
+
+type ProfileSchema = { [K in ProfileField]: FieldSchema<ProfileData[K]> };
+
+function check<T>(guard: (value: unknown) => value is T) {
+  return (value: unknown) => (guard(value) ? value : undefined);
+}
+
+export const PROFILE_SCHEMA: ProfileSchema = {
+  goalItems: {
+    label: 'Goals',
+    merge: 'list',
+    defaultValue: [],
+    legacyKey: 'goal-items',
+    parse: check(isStringArray),
+  },
+  goalQuantities: {
+    label: 'Goal quantities',
+    merge: 'record',
+    defaultValue: {},
+    legacyKey: 'goal-quantities',
+    parse: check((value): value is Record<string, number> => isRecordOf(value, isNumber)),
+  },
+  weaponTiers: {
+    label: 'Weapon tiers',
+    merge: 'record',
+    defaultValue: {},
+    legacyKey: 'weapon-tiers',
+    parse: check((value): value is Record<string, WeaponTierRange> => isRecordOf(value, isWeaponTierRange)),
+  },
+  disabledItems: {
+    label: 'Disabled goals',
+    merge: 'list',
+    defaultValue: [],
+    legacyKey: 'disabled-items',
+    parse: check(isStringArray),
+  },
+  stashCounts: {
+    label: 'Stash',
+    merge: 'record',
+    defaultValue: {},
+    legacyKey: 'stash-items',
+    parse: check((value): value is Record<string, number> => isRecordOf(value, isNumber)),
+  },
+  enabledTypes: {
+    label: 'Type filter',
+    merge: 'value',
+    defaultValue: null,
+    legacyKey: 'enabled-types',
+    parse: (value) => (value === null || isStringArray(value) ? value : undefined),
+  },
+  enabledRarities: {
+    label: 'Rarity filter',
+    merge: 'value',
+    defaultValue: null,
+    legacyKey: 'enabled-rarities',
+    parse: (value) => (value === null || isStringArray(value) ? value : undefined),
+  },
+  sortMode: {
+    label: 'Sort order',
+    merge: 'value',
+    defaultValue: 'name',
+    legacyKey: 'sort-mode',
+    parse: (value) => SORT_MODES.find((mode) => mode === value),
+  },
+  hideUnscored: {
+    label: 'Score filter',
+    merge: 'value',
+    defaultValue: false,
+    legacyKey: 'hide-unscored',
+    parse: check((value): value is boolean => typeof value === 'boolean'),
+  },
+  loadoutSettings: {
+    label: 'Backpack limits',
+    merge: 'value',
+    defaultValue: DEFAULT_LOADOUT_SETTINGS,
+    legacyKey: 'loadout-settings',
+    // Settings added later are filled in from the defaults
+    parse: (value) =>
+      isRecordOf(value, isNumber) ? { ...DEFAULT_LOADOUT_SETTINGS, ...value } : undefined,
+  },
+  goalPremium: {
+    label: 'Goal premium',
+    merge: 'value',
+    defaultValue: DEFAULT_GOAL_PREMIUM_PERCENT,
+    legacyKey: 'goal-premium',
+    parse: check(isNumber),
+  },
+  workshopLevels: {
+    label: 'Workshop levels',
+    merge: 'record',
+    defaultValue: {},
+    legacyKey: 'workshop-levels',
+    parse: check((value): value is WorkshopLevels => isRecordOf(value, isNumber)),
+  },
+  buildPlanDone: {
+    label: 'Build plan progress',
+    merge: 'list',
+    defaultValue: [],
+    legacyKey: 'build-plan-done',
+    parse: check(isStringArray),
+  },
+  learnedBlueprints: {
+    label: 'Learned blueprints',
+    merge: 'list',
+    defaultValue: [],
+    legacyKey: 'learned-blueprints',
+    parse: check(isStringArray),
+  },
+  customGoals: {
+    label: 'Custom goals',
+    merge: 'byId',
+    defaultValue: [],
+    legacyKey: 'custom-goals',
+    parse: check((value): value is CustomGoal[] => Array.isArray(value) && value.every(isCustomGoal)),
+  },
+  goalGroups: {
+    label: 'Goal groups',
+    merge: 'byId',
+    defaultValue: [],
+    legacyKey: 'goal-groups',
+    parse: check((value): value is GoalGroup[] => Array.isArray(value) && value.every(isGoalGroup)),
+  },
+  goalGroupMembership: {
+    label: 'Group membership',
+    merge: 'record',
+    defaultValue: {},
+    legacyKey: 'goal-group-membership',
+    parse: check((value): value is GoalGroupMembership => isRecordOf(value, isString)),
+  },
+  seenDataVersion: {
+    label: 'Seen data version',
+    merge: 'value',
+    defaultValue: null,
+    legacyKey: 'seen-data-version',
+    parse: (value) => (value === null || isString(value) ? value : undefined),
+  },
+};
+
+export const PROFILE_FIELDS = Object.keys(PROFILE_SCHEMA) as ProfileField[];
+
+// Stash entries saved before counts were tracked only meant "I have enough"
+const LEGACY_ENOUGH_COUNT = 999;
+
+interface Migration {
+  version: number; // Version of the document after this step
+  description: string;
+  migrate: (document: StorageDocument) => StorageDocument;
+}
+
+/**
+ * Steps from older document shapes, in order. Version 1 is the layout
+ * with one storage key per setting, collected into a document as is.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Stash item lists become item counts',
+    migrate: (document) => {
+      for (const profileData of Object.values(document.data)) {
+        const stash: unknown = profileData.stashCounts;
+        if (isStringArray(stash)) {
+          profileData.stashCounts = Object.fromEntries(stash.map((itemId) => [itemId, LEGACY_ENOUGH_COUNT]));
+        }
+      }
+      return document;
+    },
+  },
+  {
+    version: 3,
+    description: 'The language becomes a setting of the browser instead of each profile',
+    migrate: (document) => {
+      const activeData: Record<string, unknown> | undefined = document.data[document.activeProfileId];
+      if (document.language === undefined && activeData?.language !== undefined) {
+        document.language = activeData.language as Language;
+      }
+      for (const profileData of Object.values(document.data)) {
+        delete (profileData as Record<string, unknown>).language;
+      }
+      return document;
+    },
+  },
+];
+
+function migrateDocument(document: StorageDocument): StorageDocument {
+  let migrated = document;
+  for (const migration of MIGRATIONS) {
+    if (migrated.version < migration.version) {
+      migrated = { ...migration.migrate(migrated), version: migration.version };
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Turns whatever was read from storage into a current document: older
+ * versions are migrated, then every setting is checked. Invalid settings are
+ * dropped (so their defaults apply) and returned for quarantine.
+ */
+export function parseDocument(raw: unknown): { document: StorageDocument; quarantined: QuarantineEntry[] } {
+  const quarantined: QuarantineEntry[] = [];
+  if (!isRecord(raw) || !isNumber(raw.version) || !isRecord(raw.data)) {
+    quarantined.push(createQuarantineEntry('document', 'Not a storage document', raw));
+    return { document: createEmptyDocument(), quarantined };
+  }
+  if (raw.version > CURRENT_VERSION) {
+    quarantined.push(createQuarantineEntry('document', `Saved by a newer version (${raw.version})`, raw));
+    return { document: createEmptyDocument(), quarantined };
+  }
+
+  // Migrations only touch the settings they know about, the checks below catch the rest
+  const migrated = migrateDocument(raw as unknown as StorageDocument);
+
+  let profiles: Profile[] = [DEFAULT_PROFILE];
+  if (Array.isArray(migrated.profiles) && migrated.profiles.length > 0 && migrated.profiles.every(isProfile)) {
+    profiles = migrated.profiles;
+  } else {
+    quarantined.push(createQuarantineEntry('profiles', 'Invalid profile list', migrated.profiles));
+  }
+  const activeProfileId = profiles.some((profile) => profile.id === migrated.activeProfileId)
+    ? migrated.activeProfileId
+    : profiles[0].id;
+
+  let language: Language | undefined;
+  if (isLanguage(migrated.language)) {
+    language = migrated.language;
+  } else if (migrated.language !== undefined) {
+    quarantined.push(createQuarantineEntry('language', 'Invalid value', migrated.language));
+  }
+
+  const data: Record<string, Partial<ProfileData>> = {};
+  for (const profile of profiles) {
+    // Stored keys may be anything, inherited ones like "toString" must not count
+    const rawProfileData: unknown = Object.hasOwn(migrated.data, profile.id) ? migrated.data[profile.id] : undefined;
+    data[profile.id] = {};
+    if (!isRecord(rawProfileData)) {
+      if (rawProfileData !== undefined) {
+        quarantined.push(createQuarantineEntry(`data.${profile.id}`, 'Invalid profile data', rawProfileData));
+      }
+      continue;
+    }
+    for (const [field, value] of Object.entries(rawProfileData)) {
+      const source = `data.${profile.id}.${field}`;
+      if (!Object.hasOwn(PROFILE_SCHEMA, field)) {
+        quarantined.push(createQuarantineEntry(source, 'Unknown setting', value));
+        continue;
+      }
+      const parsed = PROFILE_SCHEMA[field as ProfileField].parse(value);
+      if (parsed === undefined) {
+        quarantined.push(createQuarantineEntry(source, 'Invalid value', value));
+      } else {
+        (data[profile.id] as Record<string, unknown>)[field] = parsed;
+      }
+    }
+  }
+
+  const document: StorageDocument = { version: migrated.version, profiles, activeProfileId, data };
+  if (language) {
+    document.language = language;
+  }
+  return { document, quarantined };
+}
@@ -0,0 +1,106 @@
+import type { Profile } from './profiles';
+import type { Language } from '../i18n';
+import { PROFILE_FIELDS, PROFILE_SCHEMA, fromMergeEntries, toMergeEntries } from './storageSchema';
+import type { MergeKind, ProfileData, ProfileField, StorageDocument } from './storageSchema';
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of one setting: what changed on either side since the base
+ * is kept, entry by entry. Where both sides changed the same entry, ours wins.
+ */
+export function mergeChanges(kind: MergeKind, base: unknown, ours: unknown, theirs: unknown): unknown {
+  if (isSame(ours, base)) {
+    return theirs;
+  }
+  if (isSame(theirs, base) || isSame(ours, theirs)) {
+    return ours;
+  }
+
+  const baseEntries = toMergeEntries(kind, base);
+  const ourEntries = toMergeEntries(kind, ours);
+  const theirEntries = toMergeEntries(kind, theirs);
+  const merged = new Map<string, unknown>();
+  // Our order first, then entries only they have
+  for (const key of new Set([...ourEntries.keys(), ...theirEntries.keys()])) {
+    const weChanged =
+      ourEntries.has(key) !== baseEntries.has(key) || !isSame(ourEntries.get(key), baseEntries.get(key));
+    const entries = weChanged ? ourEntries : theirEntries;
+    if (entries.has(key)) {
+      merged.set(key, entries.get(key));
+    }
+  }
+  return fromMergeEntries(kind, merged);
+}
+
+function mergeProfileData(
+  base: Partial<ProfileData> | undefined,
+  ours: Partial<ProfileData> | undefined,
+  theirs: Partial<ProfileData> | undefined
+): Partial<ProfileData> {
+  const merged: Record<string, unknown> = {};
+  for (const field of PROFILE_FIELDS) {
+    const { merge, defaultValue } = PROFILE_SCHEMA[field];
+    const value = mergeChanges(
+      merge,
+      base?.[field] ?? defaultValue,
+      ours?.[field] ?? defaultValue,
+      theirs?.[field] ?? defaultValue
+    );
+    // Settings no side has stored stay unset
+    if ([base, ours, theirs].some((data) => data?.[field] !== undefined)) {
+      merged[field] = value;
+    }
+  }
+  return merged as Partial<ProfileData>;
+}
+
+/**
+ * Combines the document saved by another tab (theirs) with this tab's one (ours),
+ * both changed from the document this tab last read or wrote (base).
+ * The active profile stays per tab, unless it was deleted elsewhere; the
+ * language is shared, so a change in any tab applies to all of them.
+ */
+export function mergeDocumentChanges(
+  base: StorageDocument,
+  ours: StorageDocument,
+  theirs: StorageDocument
+): StorageDocument {
+  let profiles = mergeChanges('byId', base.profiles, ours.profiles, theirs.profiles) as Profile[];
+  if (profiles.length === 0) {
+    profiles = theirs.profiles;
+  }
+
+  const data: Record<string, Partial<ProfileData>> = {};
+  for (const profile of profiles) {
+    data[profile.id] = mergeProfileData(base.data[profile.id], ours.data[profile.id], theirs.data[profile.id]);
+  }
+
+  const activeProfileId = profiles.some((profile) => profile.id === ours.activeProfileId)
+    ? ours.activeProfileId
+    : profiles[0].id;
+
+  const merged: StorageDocument = { version: theirs.version, profiles, activeProfileId, data };
+  const language = mergeChanges('value', base.language, ours.language, theirs.language) as Language | undefined;
+  if (language) {
+    merged.language = language;
+  }
+  return merged;
+}
+
+/**
+ * Settings of the active profile that differ between two documents
+ */
+export function getChangedFields(before: StorageDocument, after: StorageDocument): ProfileField[] {
+  if (before.activeProfileId !== after.activeProfileId) {
+    return [...PROFILE_FIELDS];
+  }
+  const beforeData = before.data[before.activeProfileId];
+  const afterData = after.data[after.activeProfileId];
+  return PROFILE_FIELDS.filter((field) => {
+    const { defaultValue } = PROFILE_SCHEMA[field];
+    return !isSame(beforeData?.[field] ?? defaultValue, afterData?.[field] ?? defaultValue);
+  });
+}
@@ -0,0 +1,126 @@
+import type { Item, ItemsMap } from '../types/item';
+import { DEFAULT_LANGUAGE, getLocalizedText } from '../i18n';
+import type { Language } from '../i18n';
+
+/**
+ * Matches the tier suffix of weapon names (e.g. "Anvil III")
+ */
+export const WEAPON_TIER_SUFFIX = /\s+(I{1,3}|IV)$/;
+
+const ROMAN_TIERS: Record<string, number> = { I: 1, II: 2, III: 3, IV: 4 };
+
+export const TIER_LABELS = ['None', 'I', 'II', 'III', 'IV'];
+
+export interface WeaponTierRange {
+  ownedTier: number; // 0 if the weapon is not owned yet
+  targetTier: number;
+}
+
+/**
+ * Returns the weapon name without its tier suffix.
+ * Tiers are matched by their English names, other languages are only for display.
+ */
+export function getWeaponBaseName(item: Item, language: Language = DEFAULT_LANGUAGE): string {
+  return getLocalizedText(item.name, language).replace(WEAPON_TIER_SUFFIX, '');
+}
+
+/**
+ * Fills in the tier of weapons from their name suffix (I-IV),
+ * as the item data doesn't provide it
+ */
+export function assignWeaponTiers(items: Item[]): Item[] {
+  return items.map((item) => {
+    if (!item.isWeapon || typeof item.tier === 'number') {
+      return item;
+    }
+    const match = item.name.en.match(WEAPON_TIER_SUFFIX);
+    return match ? { ...item, tier: ROMAN_TIERS[match[1]] } : item;
+  });
+}
+
+/**
+ * Returns all tiers of the weapon family an item belongs to, sorted by tier.
+ * Returns an empty list for items that are not tiered weapons.
+ */
+export function getWeaponTiers(item: Item, itemsMap: ItemsMap): Item[] {
+  if (!item.isWeapon || typeof item.tier !== 'number') {
+    return [];
+  }
+
+  const baseName = getWeaponBaseName(item);
+  return Object.values(itemsMap)
+    .filter(
+      (other) =>
+        other.isWeapon &&
+        typeof other.tier === 'number' &&
+        getWeaponBaseName(other) === baseName
+    )
+    .sort((a, b) => (a.tier || 0) - (b.tier || 0));
+}
+
+/**
+ * Returns the default tier range for a weapon goal: craft it and upgrade it to the highest tier
+ */
+export function getDefaultTierRange(tiers: Item[]): WeaponTierRange {
+  return { ownedTier: 0, targetTier: tiers[tiers.length - 1]?.tier || 1 };
+}
+
+/**
+ * Combines the materials needed to get a weapon from the owned tier to the target tier.
+ * Includes the Tier I recipe if the weapon isn't owned yet, plus every upgrade cost in between.
+ */
+export function getWeaponUpgradeRecipe(
+  tiers: Item[],
+  range: WeaponTierRange
+): Record<string, number> {
+  const recipe: Record<string, number> = {};
+
+  tiers.forEach((tier) => {
+    const tierNumber = tier.tier || 0;
+    if (tierNumber <= range.ownedTier || tierNumber > range.targetTier) {
+      return;
+    }
+
+    // Crafting recipe (Tier I) or upgrade cost (Tier II-IV)
+    const materials = tierNumber === 1 ? tier.recipe : tier.upgradeCost;
+    if (materials) {
+      Object.entries(materials).forEach(([materialId, qty]) => {
+        recipe[materialId] = (recipe[materialId] || 0) + qty;
+      });
+    }
+  });
+
+  return recipe;
+}
+
+/**
+ * Rewrites goals saved while weapon tiers were collapsed into one item.
+ * Those goals reference a higher tier item and meant "craft and upgrade up to this tier";
+ * they are mapped to the Tier I item with the matching tier range.
+ */
+export function migrateWeaponGoals(
+  goalItemIds: string[],
+  tierRanges: Record<string, WeaponTierRange>,
+  itemsMap: ItemsMap
+): { goalItemIds: string[]; tierRanges: Record<string, WeaponTierRange> } {
+  const migratedRanges = { ...tierRanges };
+  const migratedIds: string[] = [];
+
+  goalItemIds.forEach((itemId) => {
+    const item = itemsMap[itemId];
+    const tiers = item ? getWeaponTiers(item, itemsMap) : [];
+    if (!item || tiers.length === 0 || item.tier === tiers[0].tier) {
+      migratedIds.push(itemId);
+      return;
+    }
+
+    const baseItemId = tiers[0].id;
+    if (!migratedIds.includes(baseItemId)) {
+      migratedIds.push(baseItemId);
+      migratedRanges[baseItemId] = { ownedTier: 0, targetTier: item.tier || 1 };
+    }
+    delete migratedRanges[itemId];
+  });
+
+  return { goalItemIds: migratedIds, tierRanges: migratedRanges };
+}
@@ -0,0 +1,143 @@
+import type { Item, ItemsMap } from '../types/item';
+import type { HideoutModule } from '../types/hideout';
+import type { CraftingNode, CraftingTree } from './craftingChain';
+import { getOutstandingQuantity } from './craftingChain';
+import { getDefaultTierRange, getWeaponTiers } from './weaponTiers';
+import type { WeaponTierRange } from './weaponTiers';
+
+// Current level per crafting bench, keyed by the bench id from the item data
+export type WorkshopLevels = Record<string, number>;
+
+export interface CraftBench {
+  id: string;
+  name: string;
+  maxLevel: number; // Highest station level any item requires or the hideout data knows
+}
+
+export interface StationRequirement {
+  bench: string;
+  requiredLevel: number;
+  currentLevel: number;
+}
+
+/**
+ * Turns a bench id like "weapon_bench" into "Weapon Bench"
+ */
+export function getBenchLabel(benchId: string): string {
+  return benchId
+    .split(/[_\s]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Collects all crafting benches used by the item data or listed in the hideout data
+ */
+export function getCraftBenches(itemsMap: ItemsMap, hideoutModules: HideoutModule[] = []): CraftBench[] {
+  const benches = new Map<string, CraftBench>();
+
+  for (const module of hideoutModules) {
+    benches.set(module.id, { id: module.id, name: module.name.en, maxLevel: module.maxLevel });
+  }
+
+  for (const item of Object.values(itemsMap)) {
+    if (!item.craftBench) {
+      continue;
+    }
+    const bench = benches.get(item.craftBench) ?? {
+      id: item.craftBench,
+      name: getBenchLabel(item.craftBench),
+      maxLevel: 1,
+    };
+    bench.maxLevel = Math.max(bench.maxLevel, item.stationLevelRequired || 1);
+    benches.set(item.craftBench, bench);
+  }
+
+  return Array.from(benches.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether the item data knows which station level items need. Item data generated
+ * before craftBench and stationLevelRequired were kept has none, and then no goal
+ * can be checked against the workshop levels.
+ */
+export function hasStationRequirements(itemsMap: ItemsMap): boolean {
+  return Object.values(itemsMap).some((item) => item.craftBench && item.stationLevelRequired);
+}
+
+/**
+ * Returns the station requirement of an item if the workshop is below it.
+ * Benches without an entered level are not checked.
+ */
+export function getMissingStationLevel(
+  item: Item,
+  workshopLevels: WorkshopLevels
+): StationRequirement | null {
+  if (!item.craftBench || !item.stationLevelRequired) {
+    return null;
+  }
+
+  const currentLevel = workshopLevels[item.craftBench];
+  if (currentLevel === undefined || currentLevel >= item.stationLevelRequired) {
+    return null;
+  }
+
+  return { bench: item.craftBench, requiredLevel: item.stationLevelRequired, currentLevel };
+}
+
+/**
+ * Finds the goals that need a higher station level than the workshop has, for the
+ * goal itself or for anything still to be crafted in its chain, with the highest
+ * unmet requirement per goal. Goals without a crafting tree (disabled ones) only
+ * check the goal item. Returns nothing while the item data has no station
+ * requirements (see hasStationRequirements).
+ */
+export function getStationBlockedGoals(
+  goalItemIds: string[],
+  craftingTrees: CraftingTree[],
+  itemsMap: ItemsMap,
+  weaponTierRanges: Record<string, WeaponTierRange>,
+  workshopLevels: WorkshopLevels
+): Map<string, StationRequirement> {
+  const blockedGoals = new Map<string, StationRequirement>(); // goal item id -> requirement
+  if (!hasStationRequirements(itemsMap)) {
+    return blockedGoals;
+  }
+
+  const treesByGoal = new Map(craftingTrees.map((tree) => [tree.goalItemId, tree]));
+
+  for (const goalItemId of goalItemIds) {
+    const item = itemsMap[goalItemId];
+    if (!item) {
+      continue;
+    }
+    // Weapons are checked against the bench level of the target tier
+    const weaponTiers = getWeaponTiers(item, itemsMap);
+    const { targetTier } = weaponTierRanges[goalItemId] ?? getDefaultTierRange(weaponTiers);
+    const targetItem = weaponTiers.find((tier) => tier.tier === targetTier) ?? item;
+    const requirements = [getMissingStationLevel(targetItem, workshopLevels)];
+
+    // Expanded nodes are the ones still to be crafted, owned ones have no children
+    const collect = (node: CraftingNode) => {
+      const nodeItem = itemsMap[node.itemId];
+      if (nodeItem && node.children.length > 0 && getOutstandingQuantity(node) > 0) {
+        requirements.push(getMissingStationLevel(nodeItem, workshopLevels));
+      }
+      node.children.forEach(collect);
+    };
+    treesByGoal.get(goalItemId)?.root.children.forEach(collect);
+
+    let highest: StationRequirement | null = null;
+    for (const requirement of requirements) {
+      if (requirement && (!highest || requirement.requiredLevel > highest.requiredLevel)) {
+        highest = requirement;
+      }
+    }
+    if (highest) {
+      blockedGoals.set(goalItemId, highest);
+    }
+  }
+
+  return blockedGoals;
+}